@@ -1,7 +1,10 @@
 // Service Worker para interceptar requisições de imagens geradas
 const DB_NAME = 'ImageConverterDB';
-const DB_VERSION = 1;
+// Mesma versão e mesmos stores do app (src/utils/indexeddb.ts): quem abrir o
+// banco primeiro faz a atualização
+const DB_VERSION = 2;
 const STORE_NAME = 'generatedImages';
+const GROUP_STORE_NAME = 'imageGroups';
 const IMAGE_PATH_PREFIX = '/imagens-geradas/';
 
 // Cache dos blobs para melhor performance
@@ -18,7 +21,12 @@ function openDB() {
     request.onupgradeneeded = (event) => {
       const db = event.target.result;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'filename' });
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'filename' });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(GROUP_STORE_NAME)) {
+        const groups = db.createObjectStore(GROUP_STORE_NAME, { keyPath: 'id' });
+        groups.createIndex('timestamp', 'timestamp', { unique: false });
       }
     };
   });
@@ -43,9 +51,14 @@ async function getImageFromDB(filename) {
       request.onsuccess = () => {
         const result = request.result;
         if (result && result.blob) {
+          // Registros antigos não têm mimeType: usa o tipo do próprio blob
+          const image = {
+            blob: result.blob,
+            mimeType: result.mimeType || result.blob.type || 'image/webp'
+          };
           // Adiciona ao cache
-          blobCache.set(filename, result.blob);
-          resolve(result.blob);
+          blobCache.set(filename, image);
+          resolve(image);
         } else {
           resolve(null);
         }
@@ -66,15 +79,15 @@ self.addEventListener('fetch', (event) => {
     const filename = url.pathname.replace(IMAGE_PATH_PREFIX, '');
     
     event.respondWith(
-      getImageFromDB(filename).then(blob => {
-        if (blob) {
+      getImageFromDB(filename).then(image => {
+        if (image) {
           // Retorna a imagem como resposta
-          return new Response(blob, {
+          return new Response(image.blob, {
             status: 200,
             statusText: 'OK',
             headers: {
-              'Content-Type': 'image/webp',
-              'Content-Length': blob.size,
+              'Content-Type': image.mimeType,
+              'Content-Length': image.blob.size,
               'Cache-Control': 'public, max-age=31536000', // Cache por 1 ano
               'Access-Control-Allow-Origin': '*'
             }
@@ -1,53 +1,147 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
-import { X, Download, Edit2 } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { X, Download, Edit2, Film, Pause, Play, Square } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import ImageCropper from './ImageCropper';
+import ProfileSelector from './ProfileSelector';
+import ComplianceReport from './ComplianceReport';
+import { useEncodingProfiles } from '@/hooks/use-encoding-profiles';
+import { getFormatExtension } from '@/utils/formats';
+import { toImageInput } from '@/utils/svg';
+import { IMAGE_FILE_ACCEPT, describeDetectedFormat, identifyFile, type DetectedFormat } from '@/utils/fileSniffing';
+import { FIT_MODE_LABELS, type BackgroundOptions, type EncodingProfile, type FitMode } from '@/utils/profiles';
+import { evaluateCompliance } from '@/utils/compliance';
+import {
+  getDefaultPoolSize,
+  loadWorkerCountOverride,
+  saveWorkerCountOverride,
+  ConversionCancelledError,
+  type ConversionDetails,
+  type CropRect,
+  type ImageWorkerPool
+} from '@/utils/imageWorkerPool';
 
 interface BatchImage {
   id: string;
   file: File;
+  // Detected from the file contents, not from file.type
+  format: DetectedFormat;
   preview: string;
   converted?: string;
   fileName?: string;
   size?: number;
-  status: 'pending' | 'processing' | 'done';
+  mimeType?: string;
+  details?: ConversionDetails;
+  // Profile the current result was made with; compliance is checked against it
+  profile?: EncodingProfile;
+  error?: string;
+  fit?: FitMode;
+  crop?: CropRect;
+  status: 'pending' | 'queued' | 'processing' | 'done';
 }
 
+interface Slideshow {
+  url: string;
+  size: number;
+  details: ConversionDetails;
+}
+
+const DEFAULT_FRAME_SECONDS = 1;
+
+// Keep the original name, swapping the extension for the output format
+const getOutputFileName = (file: File, mimeType: string): string => {
+  const originalName = file.name.replace(/\.[^/.]+$/, '');
+  return `${originalName}.${getFormatExtension(mimeType)}`;
+};
+
 interface BatchModeProps {
   onBack: () => void;
-  workerRef: React.RefObject<Worker | null>;
+  workerPoolRef: React.RefObject<ImageWorkerPool | null>;
+  // Files handed over by another screen, e.g. frames picked from a video
+  initialFiles?: File[];
 }
 
-const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
+const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerPoolRef, initialFiles }) => {
   const [images, setImages] = useState<BatchImage[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [editingImage, setEditingImage] = useState<BatchImage | null>(null);
+  const [workerCount, setWorkerCount] = useState<number | null>(loadWorkerCountOverride);
+  const [isPaused, setIsPaused] = useState(false);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const skippedRef = useRef(new Set<string>());
+  const pausedRef = useRef(false);
+  const cancelAllRef = useRef(false);
+  const resumeWaitersRef = useRef<Array<() => void>>([]);
+  // Slideshow frames in selection order, each with its own duration in seconds
+  const [slideshowIds, setSlideshowIds] = useState<string[]>([]);
+  const [frameSeconds, setFrameSeconds] = useState<Record<string, number>>({});
+  const [slideshow, setSlideshow] = useState<Slideshow | null>(null);
+  const [isAnimating, setIsAnimating] = useState(false);
+  const slideshowControllerRef = useRef<AbortController | null>(null);
+  const { activeProfile } = useEncodingProfiles();
   const { toast } = useToast();
 
-  const addImages = useCallback((files: File[]) => {
-    const newImages: BatchImage[] = files
-      .filter(file => file.type.startsWith('image/'))
-      .map(file => ({
-        id: `${Date.now()}-${Math.random()}`,
-        file,
-        preview: URL.createObjectURL(file),
-        status: 'pending' as const
-      }));
+  // Abort anything still running in the shared pool when leaving batch mode
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      slideshowControllerRef.current?.abort();
+    };
+  }, []);
 
-    if (newImages.length === 0) {
+  useEffect(() => {
+    return () => {
+      if (slideshow) URL.revokeObjectURL(slideshow.url);
+    };
+  }, [slideshow]);
+
+  const addImages = useCallback(async (files: File[]) => {
+    const newImages: BatchImage[] = [];
+    const rejected: string[] = [];
+
+    // Sniff each file header instead of trusting file.type
+    for (const droppedFile of files) {
+      try {
+        const { file, format } = await identifyFile(droppedFile);
+        if (format.kind !== 'image') {
+          throw new Error(`"${file.name}" é um vídeo (${format.label}); escolha quadros dele no modo individual.`);
+        }
+        newImages.push({
+          id: `${Date.now()}-${Math.random()}`,
+          file,
+          format,
+          preview: URL.createObjectURL(file),
+          status: 'pending'
+        });
+      } catch (err) {
+        rejected.push(err instanceof Error ? err.message : `"${droppedFile.name}" não é uma imagem válida.`);
+      }
+    }
+
+    if (rejected.length > 0) {
       toast({
-        title: "Erro",
-        description: "Nenhuma imagem válida encontrada.",
+        title: newImages.length === 0 ? "Nenhuma imagem válida encontrada" : `${rejected.length} arquivo(s) ignorado(s)`,
+        description: rejected.slice(0, 3).join(' ') + (rejected.length > 3 ? ` E mais ${rejected.length - 3}.` : ''),
         variant: "destructive"
       });
-      return;
     }
-
-    setImages(prev => [...prev, ...newImages]);
+    if (newImages.length > 0) {
+      setImages(prev => [...prev, ...newImages]);
+    }
   }, [toast]);
 
+  const initialFilesRef = useRef(initialFiles);
+  useEffect(() => {
+    const files = initialFilesRef.current;
+    initialFilesRef.current = undefined;
+    if (files?.length) addImages(files);
+  }, [addImages]);
+
   const removeImage = useCallback((id: string) => {
     setImages(prev => {
       const img = prev.find(i => i.id === id);
@@ -57,67 +151,150 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
       }
       return prev.filter(i => i.id !== id);
     });
+    setSlideshowIds(prev => prev.filter(selectedId => selectedId !== id));
   }, []);
 
-  const processImages = useCallback(async () => {
-    if (!workerRef.current || images.length === 0) return;
+  const updateImage = useCallback((id: string, changes: Partial<BatchImage>) => {
+    setImages(prev => prev.map(img => img.id === id ? { ...img, ...changes } : img));
+  }, []);
 
-    setIsProcessing(true);
+  const resumeQueue = useCallback(() => {
+    pausedRef.current = false;
+    setIsPaused(false);
+    resumeWaitersRef.current.splice(0).forEach(resume => resume());
+  }, []);
+
+  const pauseQueue = useCallback(() => {
+    pausedRef.current = true;
+    setIsPaused(true);
+  }, []);
 
-    for (const image of images) {
-      if (image.status === 'done') continue;
+  const waitWhilePaused = useCallback(() => {
+    if (!pausedRef.current) return Promise.resolve();
+    return new Promise<void>(resolve => resumeWaitersRef.current.push(resolve));
+  }, []);
 
-      setImages(prev => prev.map(img => 
-        img.id === image.id ? { ...img, status: 'processing' } : img
-      ));
+  const processImages = useCallback(async () => {
+    const pool = workerPoolRef.current;
+    const toProcess = images.filter(img => img.status !== 'done');
+    if (!pool || toProcess.length === 0) return;
 
-      try {
-        const reader = new FileReader();
-        const imageDataUrl = await new Promise<string>((resolve, reject) => {
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.onerror = reject;
-          reader.readAsDataURL(image.file);
-        });
+    setIsProcessing(true);
+    cancelAllRef.current = false;
+    skippedRef.current.clear();
+    let failedCount = 0;
+    let doneCount = 0;
+    let totalEncodes = 0;
+    let nextIndex = 0;
+
+    const ids = new Set(toProcess.map(img => img.id));
+    setImages(prev => prev.map(img =>
+      ids.has(img.id) ? { ...img, status: 'queued', error: undefined } : img
+    ));
+
+    const processImage = async (image: BatchImage) => {
+      const controller = new AbortController();
+      controllersRef.current.set(image.id, controller);
 
-        const result = await new Promise<{ blob: Blob; size: number }>((resolve, reject) => {
-          const handler = (event: MessageEvent) => {
-            const { status, blob, size, message } = event.data;
-            if (status === 'success' && blob && size !== undefined) {
-              workerRef.current?.removeEventListener('message', handler);
-              resolve({ blob, size });
-            } else if (status === 'error') {
-              workerRef.current?.removeEventListener('message', handler);
-              reject(new Error(message));
-            }
-          };
-          
-          workerRef.current?.addEventListener('message', handler);
-          workerRef.current?.postMessage({ type: 'CONVERT', imageDataUrl });
+      try {
+        const input = await toImageInput(image.file, activeProfile.width, activeProfile.height);
+        const profile = image.fit ? { ...activeProfile, fit: image.fit } : activeProfile;
+        const result = await pool.convert(input, {
+          profile,
+          signal: controller.signal,
+          onStatus: (status) => updateImage(image.id, { status })
         });
 
         const convertedUrl = URL.createObjectURL(result.blob);
-        const originalName = image.file.name.replace(/\.[^/.]+$/, '');
-        const fileName = `${originalName}.webp`;
-
-        setImages(prev => prev.map(img =>
-          img.id === image.id
-            ? { ...img, status: 'done', converted: convertedUrl, fileName, size: result.size }
-            : img
-        ));
+        const fileName = getOutputFileName(image.file, result.blob.type);
+
+        doneCount++;
+        totalEncodes += result.encodes;
+        updateImage(image.id, {
+          status: 'done',
+          converted: convertedUrl,
+          fileName,
+          size: result.size,
+          mimeType: result.blob.type,
+          details: result,
+          profile,
+          crop: result.crop
+        });
       } catch (error) {
+        if (error instanceof ConversionCancelledError) {
+          updateImage(image.id, { status: 'pending' });
+          return;
+        }
         console.error('Erro ao processar imagem:', error);
-        setImages(prev => prev.map(img =>
-          img.id === image.id ? { ...img, status: 'pending' } : img
-        ));
+        const message = error instanceof Error ? error.message : 'Falha ao processar a imagem.';
+        failedCount++;
+        updateImage(image.id, { status: 'pending', error: message });
+      } finally {
+        controllersRef.current.delete(image.id);
       }
-    }
+    };
+
+    // Each runner submits the next file only when the previous one is done,
+    // so pausing or cancelling never leaves a long backlog inside the pool
+    const runner = async () => {
+      while (nextIndex < toProcess.length) {
+        await waitWhilePaused();
+        if (cancelAllRef.current) return;
+
+        const image = toProcess[nextIndex++];
+        if (skippedRef.current.has(image.id)) continue;
+        await processImage(image);
+      }
+    };
+    const runnerCount = Math.min(pool.getSize(), toProcess.length);
+    await Promise.all(Array.from({ length: runnerCount }, runner));
 
     setIsProcessing(false);
+    if (cancelAllRef.current) {
+      toast({
+        title: "Conversão cancelada",
+        description: `${doneCount} imagem(ns) convertidas antes do cancelamento.`
+      });
+      return;
+    }
+    if (failedCount > 0) {
+      toast({
+        title: "Concluído com erros",
+        description: `${failedCount} imagem(ns) falharam e podem ser convertidas novamente.`,
+        variant: "destructive"
+      });
+      return;
+    }
     toast({
       title: "✨ Concluído!",
-      description: `${images.length} imagens convertidas com sucesso.`
+      description: `${doneCount} imagens convertidas com sucesso (média de ${(totalEncodes / Math.max(1, doneCount)).toFixed(1)} codificações por imagem).`
     });
-  }, [images, workerRef, toast]);
+  }, [images, workerPoolRef, activeProfile, updateImage, waitWhilePaused, toast]);
+
+  const cancelImage = useCallback((id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      // Still waiting for a free runner: make sure it is never picked up
+      skippedRef.current.add(id);
+      updateImage(id, { status: 'pending' });
+    }
+  }, [updateImage]);
+
+  const cancelAll = useCallback(() => {
+    cancelAllRef.current = true;
+    controllersRef.current.forEach(controller => controller.abort());
+    setImages(prev => prev.map(img => img.status === 'queued' ? { ...img, status: 'pending' } : img));
+    resumeQueue();
+  }, [resumeQueue]);
+
+  const handleWorkerCountChange = useCallback((value: string) => {
+    const count = value === 'auto' ? null : Number(value);
+    setWorkerCount(count);
+    saveWorkerCountOverride(count);
+    workerPoolRef.current?.resize(count ?? getDefaultPoolSize());
+  }, [workerPoolRef]);
 
   const downloadImage = useCallback((image: BatchImage) => {
     if (!image.converted || !image.fileName) return;
@@ -140,31 +317,22 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
     setEditingImage(image);
   }, []);
 
-  const handleSaveCroppedImage = useCallback(async (canvas: HTMLCanvasElement, forceSquare: boolean) => {
-    if (!workerRef.current || !editingImage) return;
+  const handleSaveCroppedImage = useCallback(async (croppedImage: ImageBitmap, forceSquare: boolean, background: BackgroundOptions) => {
+    if (!workerPoolRef.current || !editingImage) {
+      croppedImage.close();
+      return;
+    }
 
     try {
-      const dataUrl = canvas.toDataURL('image/png');
-      
-      const result = await new Promise<{ blob: Blob; size: number }>((resolve, reject) => {
-        const handler = (event: MessageEvent) => {
-          const { status, blob, size, message } = event.data;
-          if (status === 'success' && blob && size !== undefined) {
-            workerRef.current?.removeEventListener('message', handler);
-            resolve({ blob, size });
-          } else if (status === 'error') {
-            workerRef.current?.removeEventListener('message', handler);
-            reject(new Error(message));
-          }
-        };
-        
-        workerRef.current?.addEventListener('message', handler);
-        workerRef.current?.postMessage({ 
-          type: 'OPTIMIZE_CROPPED', 
-          imageDataUrl: dataUrl,
-          width: canvas.width,
-          height: canvas.height
-        });
+      // Same sizing as individual mode: a 1:1 crop fits the profile, a free crop keeps its size
+      const squareSize = Math.min(activeProfile.width, activeProfile.height);
+      // Background settings chosen in the editor apply to this image only
+      const profile = { ...activeProfile, background };
+      const result = await workerPoolRef.current.convert(croppedImage, {
+        type: 'OPTIMIZE_CROPPED',
+        profile,
+        width: forceSquare ? squareSize : croppedImage.width,
+        height: forceSquare ? squareSize : croppedImage.height
       });
 
       const newConvertedUrl = URL.createObjectURL(result.blob);
@@ -175,7 +343,11 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
           return {
             ...img,
             converted: newConvertedUrl,
-            size: result.size
+            fileName: getOutputFileName(img.file, result.blob.type),
+            size: result.size,
+            mimeType: result.blob.type,
+            details: result,
+            profile
           };
         }
         return img;
@@ -196,7 +368,59 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
       });
       setEditingImage(null);
     }
-  }, [workerRef, editingImage, toast]);
+  }, [workerPoolRef, editingImage, activeProfile, toast]);
+
+  const toggleSlideshowFrame = useCallback((id: string, selected: boolean) => {
+    setSlideshowIds(prev => selected ? [...prev, id] : prev.filter(selectedId => selectedId !== id));
+  }, []);
+
+  const createSlideshow = useCallback(async () => {
+    const pool = workerPoolRef.current;
+    const frames = slideshowIds
+      .map(id => images.find(img => img.id === id))
+      .filter((img): img is BatchImage => Boolean(img));
+    if (!pool || frames.length < 2) return;
+
+    const controller = new AbortController();
+    slideshowControllerRef.current = controller;
+    setIsAnimating(true);
+
+    try {
+      const inputs = await Promise.all(frames.map(img => toImageInput(img.file, activeProfile.width, activeProfile.height)));
+      const result = await pool.animate(inputs, {
+        profile: activeProfile,
+        durations: frames.map(img => (frameSeconds[img.id] ?? DEFAULT_FRAME_SECONDS) * 1000),
+        signal: controller.signal
+      });
+      setSlideshow({ url: URL.createObjectURL(result.blob), size: result.size, details: result });
+      toast({
+        title: "🎞️ Slideshow criado!",
+        description: `${frames.length} quadros em ${(result.size / 1024).toFixed(1)} KB`
+      });
+    } catch (error) {
+      if (error instanceof ConversionCancelledError) return;
+      console.error('Erro ao criar slideshow:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Não foi possível criar o slideshow.",
+        variant: "destructive"
+      });
+    } finally {
+      slideshowControllerRef.current = null;
+      setIsAnimating(false);
+    }
+  }, [workerPoolRef, slideshowIds, images, frameSeconds, activeProfile, toast]);
+
+  const downloadSlideshow = useCallback(() => {
+    if (!slideshow) return;
+
+    const link = document.createElement('a');
+    link.href = slideshow.url;
+    link.download = 'slideshow.webp';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }, [slideshow]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -220,9 +444,11 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
   if (editingImage) {
     return (
       <ImageCropper
-        imageSrc={editingImage.converted || editingImage.preview}
+        imageSrc={editingImage.preview}
+        initialCrop={editingImage.crop}
         onSave={handleSaveCroppedImage}
         onCancel={() => setEditingImage(null)}
+        background={activeProfile.background}
       />
     );
   }
@@ -238,9 +464,12 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
               : `${images.length} imagens (${doneCount} convertidas)`}
           </p>
         </div>
-        <Button onClick={onBack} variant="outline">
-          ← Voltar
-        </Button>
+        <div className="flex items-center gap-2">
+          <ProfileSelector disabled={isProcessing} />
+          <Button onClick={onBack} variant="outline">
+            ← Voltar
+          </Button>
+        </div>
       </div>
 
       <div
@@ -268,7 +497,7 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
               id="batch-file-input"
               type="file"
               multiple
-              accept="image/*"
+              accept={IMAGE_FILE_ACCEPT}
               className="hidden"
               onChange={handleFileInput}
             />
@@ -285,6 +514,20 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
                 </p>
               </div>
               <div className="flex gap-2">
+                <Select
+                  value={workerCount === null ? 'auto' : String(workerCount)}
+                  onValueChange={handleWorkerCountChange}
+                >
+                  <SelectTrigger className="h-9 w-[150px]" title="Quantidade de conversões em paralelo">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Workers: Auto ({getDefaultPoolSize()})</SelectItem>
+                    {Array.from({ length: 8 }, (_, i) => i + 1).map(count => (
+                      <SelectItem key={count} value={String(count)}>Workers: {count}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button
                   onClick={() => document.getElementById('batch-file-input')?.click()}
                   variant="outline"
@@ -293,6 +536,39 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
                 >
                   + Adicionar
                 </Button>
+                {isProcessing && (
+                  <>
+                    <Button
+                      onClick={isPaused ? resumeQueue : pauseQueue}
+                      variant="outline"
+                      size="sm"
+                    >
+                      {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                      {isPaused ? 'Retomar' : 'Pausar'}
+                    </Button>
+                    <Button onClick={cancelAll} variant="destructive" size="sm">
+                      <Square className="w-4 h-4" />
+                      Cancelar Todas
+                    </Button>
+                  </>
+                )}
+                {isAnimating ? (
+                  <Button onClick={() => slideshowControllerRef.current?.abort()} variant="outline" size="sm">
+                    <Square className="w-4 h-4" />
+                    Cancelar slideshow
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={createSlideshow}
+                    variant="outline"
+                    disabled={slideshowIds.length < 2}
+                    size="sm"
+                    title="Marque duas ou mais imagens para montar um WebP animado"
+                  >
+                    <Film className="w-4 h-4" />
+                    Slideshow ({slideshowIds.length})
+                  </Button>
+                )}
                 {pendingCount > 0 && (
                   <Button
                     onClick={processImages}
@@ -300,7 +576,7 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
                     className="bg-gradient-primary hover:opacity-90"
                     size="sm"
                   >
-                    {isProcessing ? '⏳ Convertendo...' : `🚀 Converter ${pendingCount}`}
+                    {isProcessing ? (isPaused ? '⏸️ Pausado' : '⏳ Convertendo...') : `🚀 Converter ${pendingCount}`}
                   </Button>
                 )}
                 {doneCount > 0 && (
@@ -314,11 +590,32 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
               id="batch-file-input"
               type="file"
               multiple
-              accept="image/*"
+              accept={IMAGE_FILE_ACCEPT}
               className="hidden"
               onChange={handleFileInput}
             />
 
+            {slideshow && (
+              <div className="mb-4 p-4 rounded-xl border border-border bg-card flex items-center gap-4">
+                <img src={slideshow.url} alt="Slideshow" className="h-24 w-24 object-contain rounded" />
+                <div className="flex-1">
+                  <p className="font-medium">Slideshow WebP animado</p>
+                  <p className={`text-sm ${slideshow.details.withinBudget ? 'text-muted-foreground' : 'text-destructive'}`}>
+                    {slideshow.details.frames} quadros · {(slideshow.size / 1024).toFixed(1)} KB ·{' '}
+                    {slideshow.details.width}×{slideshow.details.height} · q{Math.round(slideshow.details.quality * 100)}%
+                    {!slideshow.details.withinBudget && ` · acima do orçamento de ${activeProfile.maxKB} KB`}
+                  </p>
+                </div>
+                <Button size="sm" onClick={downloadSlideshow} className="bg-gradient-primary">
+                  <Download className="w-4 h-4" />
+                  Baixar
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setSlideshow(null)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
             {images.map(image => (
               <div
@@ -328,6 +625,8 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
                     ? 'border-primary shadow-glow'
                     : image.status === 'processing'
                     ? 'border-primary animate-pulse'
+                    : image.status === 'queued'
+                    ? 'border-primary/40'
                     : 'border-border'
                 }`}
               >
@@ -342,7 +641,7 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
                       <img
                         src={image.converted}
                         alt={image.file.name}
-                        className="w-full h-full object-cover pointer-events-none"
+                        className="w-full h-full object-cover pointer-events-none checkerboard"
                         draggable={false}
                       />
                     </a>
@@ -354,9 +653,28 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
                     />
                   )}
                   
+                  <span
+                    className="absolute bottom-2 left-2 rounded bg-background/80 px-1.5 py-0.5 text-[10px] font-medium"
+                    title={`Formato original: ${describeDetectedFormat(image.format)}`}
+                  >
+                    {image.format.label}{image.format.declaredType !== undefined && ' *'}
+                  </span>
+
+                  {image.status === 'queued' && (
+                    <div className="absolute inset-0 bg-background/60 flex flex-col items-center justify-center gap-2">
+                      <span className="text-xs font-medium text-muted-foreground">⏳ Na fila</span>
+                      <Button size="sm" variant="outline" onClick={() => cancelImage(image.id)}>
+                        Cancelar
+                      </Button>
+                    </div>
+                  )}
+
                   {image.status === 'processing' && (
-                    <div className="absolute inset-0 bg-background/80 flex items-center justify-center">
+                    <div className="absolute inset-0 bg-background/80 flex flex-col items-center justify-center gap-2">
                       <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+                      <Button size="sm" variant="outline" onClick={() => cancelImage(image.id)}>
+                        Cancelar
+                      </Button>
                     </div>
                   )}
                   
@@ -380,6 +698,18 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
                   )}
                 </div>
                 
+                <label
+                  className="absolute top-2 left-2 flex items-center gap-1 rounded-full bg-background/80 px-2 py-1 text-xs"
+                  title="Incluir no slideshow"
+                >
+                  <Checkbox
+                    checked={slideshowIds.includes(image.id)}
+                    onCheckedChange={(checked) => toggleSlideshowFrame(image.id, checked === true)}
+                    disabled={isAnimating}
+                  />
+                  {slideshowIds.includes(image.id) && `#${slideshowIds.indexOf(image.id) + 1}`}
+                </label>
+
                 <button
                   onClick={() => removeImage(image.id)}
                   className="absolute top-2 right-2 bg-destructive text-destructive-foreground rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -393,8 +723,73 @@ const BatchMode: React.FC<BatchModeProps> = ({ onBack, workerRef }) => {
                     {image.fileName || image.file.name}
                   </p>
                   {image.size && (
-                    <p className="text-xs text-muted-foreground">
+                    <p
+                      className={`text-xs ${image.details?.withinBudget === false ? 'text-destructive' : 'text-muted-foreground'}`}
+                      title={image.details && [
+                        `${image.details.encodes} codificações`,
+                        image.details.ssim !== undefined ? `SSIM ${image.details.ssim.toFixed(3)}` : '',
+                        image.details.trimmed === false ? 'sem borda uniforme para cortar' : '',
+                        image.details.withinBudget ? '' : `acima do orçamento de ${(image.profile ?? activeProfile).maxKB} KB`
+                      ].filter(Boolean).join(' · ')}
+                    >
                       {(image.size / 1024).toFixed(1)} KB
+                      {image.details && ` · ${image.details.width}×${image.details.height} · q${Math.round(image.details.quality * 100)}%`}
+                      {image.details?.analysis && ` · preenche ${Math.round(image.details.analysis.fill * 100)}%`}
+                    </p>
+                  )}
+                  {image.profile?.compliance.enabled && image.details && image.size && image.mimeType && (
+                    <ComplianceReport
+                      compact
+                      profileName={image.profile.name}
+                      report={evaluateCompliance(image.profile.compliance, {
+                        details: image.details,
+                        size: image.size,
+                        mimeType: image.mimeType
+                      })}
+                    />
+                  )}
+                  {image.status === 'pending' && (
+                    <Select
+                      value={image.fit ?? 'profile'}
+                      onValueChange={(value) => updateImage(image.id, {
+                        fit: value === 'profile' ? undefined : value as FitMode
+                      })}
+                      disabled={isProcessing}
+                    >
+                      <SelectTrigger className="h-7 mt-1 text-xs" title="Enquadramento desta imagem">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="profile">
+                          Do perfil ({FIT_MODE_LABELS[activeProfile.fit]})
+                        </SelectItem>
+                        {Object.entries(FIT_MODE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {slideshowIds.includes(image.id) && (
+                    <label className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                      Duração no slideshow
+                      <Input
+                        type="number"
+                        min={0.1}
+                        step={0.1}
+                        value={frameSeconds[image.id] ?? DEFAULT_FRAME_SECONDS}
+                        onChange={(e) => setFrameSeconds(prev => ({
+                          ...prev,
+                          [image.id]: Math.max(0.1, Number(e.target.value) || DEFAULT_FRAME_SECONDS)
+                        }))}
+                        disabled={isAnimating}
+                        className="h-7 w-16 text-xs"
+                      />
+                      s
+                    </label>
+                  )}
+                  {image.error && (
+                    <p className="text-xs text-destructive mt-1" title={image.error}>
+                      ⚠️ {image.error}
                     </p>
                   )}
                   {image.status === 'done' && (
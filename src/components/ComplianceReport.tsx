@@ -0,0 +1,68 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import {
+  COMPLIANCE_STATUS_LABELS,
+  type ComplianceReport as Report,
+  type ComplianceStatus
+} from '@/utils/compliance';
+
+interface ComplianceReportProps {
+  report: Report;
+  // Name of the marketplace preset, shown in the heading
+  profileName: string;
+  // Single badge with the checks in its tooltip, for the batch grid
+  compact?: boolean;
+}
+
+const STATUS_ICONS: Record<ComplianceStatus, React.ElementType> = {
+  pass: CheckCircle2,
+  warn: AlertTriangle,
+  fail: XCircle
+};
+
+const STATUS_COLORS: Record<ComplianceStatus, string> = {
+  pass: 'text-green-600',
+  warn: 'text-amber-500',
+  fail: 'text-destructive'
+};
+
+const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, profileName, compact }) => {
+  const StatusIcon = STATUS_ICONS[report.status];
+
+  if (compact) {
+    return (
+      <span
+        className={`inline-flex items-center gap-1 text-xs font-medium ${STATUS_COLORS[report.status]}`}
+        title={report.checks.map(check => `${COMPLIANCE_STATUS_LABELS[check.status]} · ${check.label}: ${check.detail}`).join('\n')}
+      >
+        <StatusIcon className="w-3 h-3" />
+        {COMPLIANCE_STATUS_LABELS[report.status]}
+      </span>
+    );
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 w-full max-w-md">
+      <h3 className={`flex items-center gap-2 font-semibold mb-3 ${STATUS_COLORS[report.status]}`}>
+        <StatusIcon className="w-5 h-5" />
+        {profileName}: {COMPLIANCE_STATUS_LABELS[report.status].toLowerCase()}
+      </h3>
+      <ul className="flex flex-col gap-2 text-sm">
+        {report.checks.map(check => {
+          const CheckIcon = STATUS_ICONS[check.status];
+          return (
+            <li key={check.label} className="flex items-start gap-2">
+              <CheckIcon className={`w-4 h-4 mt-0.5 shrink-0 ${STATUS_COLORS[check.status]}`} />
+              <span>
+                <span className="font-medium">{check.label}</span>
+                <span className="text-muted-foreground"> — {check.detail}</span>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ComplianceReport;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { MEDIA_FILE_ACCEPT } from '@/utils/fileSniffing';
 
 const UploadIcon: React.FC = () => (
   <svg
@@ -73,12 +74,13 @@ const Dropzone: React.FC<DropzoneProps> = ({ onDrop, isDragging, setIsDragging }
           Arraste sua imagem para cá ou cole (CTRL+V)
         </p>
         <p className="text-muted-foreground">ou clique para selecionar um arquivo</p>
+        <p className="text-sm text-muted-foreground mt-1">Vídeos e GIFs animados abrem o seletor de quadros</p>
       </div>
       <input
         id="file-input"
         type="file"
         className="hidden"
-        accept="image/*"
+        accept={MEDIA_FILE_ACCEPT}
         onChange={(e) => e.target.files && e.target.files.length > 0 && onDrop(e.target.files[0])}
         onClick={(e) => {
           const element = e.target as HTMLInputElement;
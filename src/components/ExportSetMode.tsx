@@ -0,0 +1,583 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Crosshair, Download, RotateCcw, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import Dropzone from './Dropzone';
+import ProfileSelector from './ProfileSelector';
+import { useEncodingProfiles } from '@/hooks/use-encoding-profiles';
+import { identifyFile, type DetectedFormat } from '@/utils/fileSniffing';
+import { generateImageURL, saveImageGroupToDB } from '@/utils/indexeddb';
+import { getFormatLabel } from '@/utils/formats';
+import { evaluateCompliance, type ComplianceReport as Report } from '@/utils/compliance';
+import ComplianceReport from './ComplianceReport';
+import {
+  DEFAULT_FOCAL_POINT,
+  EXPORT_SETS,
+  MAX_CROP_ZOOM,
+  computeFocalCrop,
+  fitProfileToOutput,
+  getExportSetFileName,
+  type CropAdjustment,
+  type ExportSetOutput,
+  type FocalPoint
+} from '@/utils/exportSets';
+import {
+  ConversionCancelledError,
+  type ConversionDetails,
+  type CropRect,
+  type ImageWorkerPool
+} from '@/utils/imageWorkerPool';
+
+interface OutputResult {
+  filename: string;
+  size: number;
+  maxKB: number;
+  details: ConversionDetails;
+  // Marketplace rules of the profile used for this output; the limits are the
+  // store's, so they apply to every output unscaled
+  compliance?: { report: Report; profileName: string };
+}
+
+type OutputStatus =
+  | { state: 'processing' }
+  | { state: 'done'; result: OutputResult }
+  | { state: 'error'; message: string };
+
+// Downloads are served from IndexedDB, so they only exist once the group is saved
+type SaveState = 'idle' | 'saving' | 'saved' | 'failed';
+
+interface ExportSetModeProps {
+  onBack: () => void;
+  workerPoolRef: React.RefObject<ImageWorkerPool | null>;
+}
+
+// Outline colours for the crops drawn over the image while placing the focal point
+const CROP_COLORS = ['#22c55e', '#3b82f6', '#f97316', '#e11d48', '#a855f7', '#eab308'];
+
+const toPercent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+interface CropThumbnailProps {
+  image: HTMLImageElement | null;
+  crop: CropRect;
+  output: ExportSetOutput;
+}
+
+// Live preview of one output, drawn straight from the loaded image
+const CropThumbnail: React.FC<CropThumbnailProps> = ({ image, crop, output }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const THUMBNAIL_SIDE = 160;
+  const scale = THUMBNAIL_SIDE / Math.max(output.width, output.height);
+  const width = Math.round(output.width * scale);
+  const height = Math.round(output.height * scale);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !image) return;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  }, [image, crop, width, height]);
+
+  return <canvas ref={canvasRef} width={width} height={height} className="rounded border border-border bg-muted" />;
+};
+
+const ExportSetMode: React.FC<ExportSetModeProps> = ({ onBack, workerPoolRef }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<DetectedFormat | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [setId, setSetId] = useState(EXPORT_SETS[0].id);
+  const [focalPoint, setFocalPoint] = useState<FocalPoint>(DEFAULT_FOCAL_POINT);
+  // Fine-tuning per output id; outputs without an entry follow the focal point
+  const [adjustments, setAdjustments] = useState<Record<string, CropAdjustment>>({});
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [statuses, setStatuses] = useState<Record<string, OutputStatus>>({});
+  const [isExporting, setIsExporting] = useState(false);
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  const controllerRef = useRef<AbortController | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ start: FocalPoint; center: FocalPoint } | 'focal' | null>(null);
+  const { activeProfile } = useEncodingProfiles();
+  const { toast } = useToast();
+
+  const exportSet = EXPORT_SETS.find(set => set.id === setId) ?? EXPORT_SETS[0];
+  const includedOutputs = exportSet.outputs.filter(output => !excluded.includes(output.id));
+
+  useEffect(() => {
+    return () => {
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+    };
+  }, [imageUrl]);
+
+  // Abort running conversions when leaving this mode
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const crops = useMemo(() => {
+    if (!image) return {};
+    return Object.fromEntries(exportSet.outputs.map(output => {
+      const adjustment = adjustments[output.id];
+      return [output.id, computeFocalCrop(
+        image.naturalWidth,
+        image.naturalHeight,
+        output,
+        adjustment?.center ?? focalPoint,
+        adjustment?.zoom ?? 1
+      )];
+    })) as Record<string, CropRect>;
+  }, [image, exportSet, adjustments, focalPoint]);
+
+  // Any change to the crops makes earlier results stale
+  const invalidateResults = useCallback(() => {
+    setStatuses({});
+    setSaveState('idle');
+  }, []);
+
+  const handleFileDrop = useCallback(async (droppedFile: File) => {
+    try {
+      const identified = await identifyFile(droppedFile);
+      if (identified.format.kind !== 'image') {
+        throw new Error('Vídeos não formam conjuntos: escolha um quadro no modo individual e salve-o primeiro.');
+      }
+      setFile(identified.file);
+      setFormat(identified.format);
+      setImageUrl(URL.createObjectURL(identified.file));
+      setImage(null);
+      setFocalPoint(DEFAULT_FOCAL_POINT);
+      setAdjustments({});
+      setSelectedId(null);
+      invalidateResults();
+    } catch (err) {
+      toast({
+        title: "Erro",
+        description: err instanceof Error ? err.message : 'O arquivo não é uma imagem válida.',
+        variant: "destructive"
+      });
+    }
+  }, [toast, invalidateResults]);
+
+  const handleImageError = () => {
+    toast({
+      title: "Erro",
+      description: `Este navegador não consegue exibir ${format ? `imagens ${format.label}` : 'esta imagem'} para posicionar o ponto focal.`,
+      variant: "destructive"
+    });
+    setFile(null);
+    setImageUrl(null);
+  };
+
+  // Pointer position as a fraction of the displayed image
+  const getRelativePoint = (e: React.MouseEvent): FocalPoint | null => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const updateAdjustment = (outputId: string, changes: Partial<CropAdjustment>) => {
+    setAdjustments(prev => ({ ...prev, [outputId]: { zoom: 1, ...prev[outputId], ...changes } }));
+    invalidateResults();
+  };
+
+  const resetAdjustment = (outputId: string) => {
+    setAdjustments(prev => {
+      const next = { ...prev };
+      delete next[outputId];
+      return next;
+    });
+    invalidateResults();
+  };
+
+  const handleStageMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const point = getRelativePoint(e);
+    if (!point || isExporting) return;
+
+    if (selectedId && image) {
+      // Pan the selected output from the centre of its current crop
+      const crop = crops[selectedId];
+      dragRef.current = {
+        start: point,
+        center: {
+          x: (crop.x + crop.width / 2) / image.naturalWidth,
+          y: (crop.y + crop.height / 2) / image.naturalHeight
+        }
+      };
+      return;
+    }
+    dragRef.current = 'focal';
+    setFocalPoint(point);
+    invalidateResults();
+  };
+
+  const handleStageMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    const point = drag ? getRelativePoint(e) : null;
+    if (!drag || !point) return;
+
+    if (drag === 'focal') {
+      setFocalPoint(point);
+      invalidateResults();
+    } else if (selectedId && image) {
+      // Keep the centre where the clamped crop actually is, so panning back responds at once
+      const requested = { x: drag.center.x + point.x - drag.start.x, y: drag.center.y + point.y - drag.start.y };
+      const output = exportSet.outputs.find(o => o.id === selectedId);
+      if (!output) return;
+      const crop = computeFocalCrop(image.naturalWidth, image.naturalHeight, output, requested, adjustments[selectedId]?.zoom ?? 1);
+      updateAdjustment(selectedId, {
+        center: { x: (crop.x + crop.width / 2) / image.naturalWidth, y: (crop.y + crop.height / 2) / image.naturalHeight }
+      });
+    }
+  };
+
+  const handleStageMouseUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleSetChange = (id: string) => {
+    setSetId(id);
+    setAdjustments({});
+    setExcluded([]);
+    setSelectedId(null);
+    invalidateResults();
+  };
+
+  const handleExport = async () => {
+    const pool = workerPoolRef.current;
+    if (!pool || !image || !file || includedOutputs.length === 0) return;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsExporting(true);
+    setSaveState('idle');
+    setSelectedId(null);
+    setStatuses(Object.fromEntries(includedOutputs.map(output => [output.id, { state: 'processing' as const }])));
+    const stamp = Date.now().toString(36);
+
+    // Each output is its own job, so the pool converts them in parallel
+    const exported = await Promise.all(includedOutputs.map(async output => {
+      const crop = crops[output.id];
+      const setStatus = (status: OutputStatus) => setStatuses(prev => ({ ...prev, [output.id]: status }));
+      try {
+        const bitmap = await createImageBitmap(
+          image,
+          Math.round(crop.x),
+          Math.round(crop.y),
+          Math.max(1, Math.round(crop.width)),
+          Math.max(1, Math.round(crop.height))
+        );
+        const profile = fitProfileToOutput(activeProfile, output);
+        const { blob, size, ...details } = await pool.convert(bitmap, {
+          type: 'OPTIMIZE_CROPPED',
+          profile,
+          width: output.width,
+          height: output.height,
+          signal: controller.signal
+        });
+        const filename = getExportSetFileName(file.name, output, blob.type, stamp);
+        const compliance = activeProfile.compliance.enabled
+          ? {
+            report: evaluateCompliance(activeProfile.compliance, { details, size, mimeType: blob.type }),
+            profileName: activeProfile.name
+          }
+          : undefined;
+        setStatus({ state: 'done', result: { filename, size, maxKB: profile.maxKB, details, compliance } });
+        return { blob, filename };
+      } catch (err) {
+        if (!(err instanceof ConversionCancelledError)) {
+          setStatus({ state: 'error', message: err instanceof Error ? err.message : 'Falha ao processar a imagem.' });
+        }
+        return null;
+      }
+    }));
+
+    if (controller.signal.aborted) {
+      setStatuses({});
+      setIsExporting(false);
+      return;
+    }
+
+    const images = exported.filter((entry): entry is { blob: Blob; filename: string } => entry !== null);
+    try {
+      if (images.length > 0) {
+        setSaveState('saving');
+        await saveImageGroupToDB(images, file.name);
+        setSaveState('saved');
+      }
+      toast({
+        title: images.length === includedOutputs.length ? "✨ Sucesso!" : "Conjunto incompleto",
+        description: `${images.length} de ${includedOutputs.length} imagens do conjunto "${exportSet.name}" geradas`,
+        variant: images.length === includedOutputs.length ? "default" : "destructive"
+      });
+    } catch (err) {
+      console.error('Erro ao salvar imagens:', err);
+      setSaveState('failed');
+      toast({ title: "Erro", description: 'Erro ao salvar as imagens do conjunto.', variant: "destructive" });
+    }
+    setIsExporting(false);
+  };
+
+  const downloadResult = (result: OutputResult) => {
+    const link = document.createElement('a');
+    link.href = generateImageURL(result.filename);
+    link.download = result.filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const canDownload = saveState === 'saved';
+  const doneResults = exportSet.outputs
+    .map(output => statuses[output.id])
+    .filter((status): status is Extract<OutputStatus, { state: 'done' }> => status?.state === 'done')
+    .map(status => status.result);
+
+  const downloadAll = () => {
+    doneResults.forEach((result, index) => setTimeout(() => downloadResult(result), index * 150));
+  };
+
+  const selectedOutput = exportSet.outputs.find(output => output.id === selectedId) ?? null;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto flex flex-col gap-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-4xl font-bold gradient-text mb-2">Conjuntos de Exportação</h1>
+          <p className="text-muted-foreground">
+            Uma foto, várias proporções: marque o ponto focal e todos os recortes se ajustam a ele
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <ProfileSelector disabled={isExporting} />
+          <Button onClick={onBack} variant="outline">
+            ← Voltar
+          </Button>
+        </div>
+      </div>
+
+      {!imageUrl ? (
+        <Dropzone onDrop={handleFileDrop} isDragging={isDragging} setIsDragging={setIsDragging} />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[3fr,2fr] gap-6">
+          <div className="flex flex-col gap-3">
+            <div
+              ref={stageRef}
+              className={`relative self-center select-none ${selectedOutput ? 'cursor-move' : 'cursor-crosshair'}`}
+              onMouseDown={handleStageMouseDown}
+              onMouseMove={handleStageMouseMove}
+              onMouseUp={handleStageMouseUp}
+              onMouseLeave={handleStageMouseUp}
+            >
+              <img
+                src={imageUrl}
+                alt="Imagem do conjunto"
+                className="block max-w-full max-h-[60vh] rounded-lg"
+                draggable={false}
+                onLoad={(e) => setImage(e.currentTarget)}
+                onError={handleImageError}
+              />
+              {image && (selectedOutput ? (
+                <div
+                  className="absolute border-2 border-primary pointer-events-none"
+                  style={{
+                    left: toPercent(crops[selectedOutput.id].x, image.naturalWidth),
+                    top: toPercent(crops[selectedOutput.id].y, image.naturalHeight),
+                    width: toPercent(crops[selectedOutput.id].width, image.naturalWidth),
+                    height: toPercent(crops[selectedOutput.id].height, image.naturalHeight),
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)'
+                  }}
+                />
+              ) : (
+                <>
+                  {includedOutputs.map(output => {
+                    const crop = crops[output.id];
+                    const color = CROP_COLORS[exportSet.outputs.indexOf(output) % CROP_COLORS.length];
+                    return (
+                      <div
+                        key={output.id}
+                        className="absolute border-2 border-dashed pointer-events-none"
+                        style={{
+                          left: toPercent(crop.x, image.naturalWidth),
+                          top: toPercent(crop.y, image.naturalHeight),
+                          width: toPercent(crop.width, image.naturalWidth),
+                          height: toPercent(crop.height, image.naturalHeight),
+                          borderColor: color
+                        }}
+                      />
+                    );
+                  })}
+                  <Crosshair
+                    className="absolute w-8 h-8 -translate-x-1/2 -translate-y-1/2 text-white drop-shadow pointer-events-none"
+                    style={{ left: toPercent(focalPoint.x, 1), top: toPercent(focalPoint.y, 1) }}
+                  />
+                </>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground text-center">
+              {selectedOutput
+                ? `Arraste para reposicionar o recorte "${selectedOutput.name}".`
+                : 'Clique ou arraste para posicionar o ponto focal.'}
+              {format && ` Original: ${format.label}.`}
+            </p>
+            {selectedOutput && (
+              <div className="flex flex-wrap items-center gap-4 justify-center">
+                <Label className="text-sm">Zoom</Label>
+                <Slider
+                  className="w-48"
+                  min={1}
+                  max={MAX_CROP_ZOOM}
+                  step={0.05}
+                  value={[adjustments[selectedOutput.id]?.zoom ?? 1]}
+                  onValueChange={([zoom]) => updateAdjustment(selectedOutput.id, { zoom })}
+                />
+                <Button size="sm" variant="outline" onClick={() => resetAdjustment(selectedOutput.id)}>
+                  <RotateCcw className="w-4 h-4" />
+                  Seguir o ponto focal
+                </Button>
+                <Button size="sm" onClick={() => setSelectedId(null)}>
+                  Concluir ajuste
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-4">
+            <div className="flex items-center gap-2">
+              <Select value={setId} onValueChange={handleSetChange} disabled={isExporting}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_SETS.map(set => (
+                    <SelectItem key={set.id} value={set.id}>{set.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isExporting}
+                onClick={() => {
+                  setFile(null);
+                  setImageUrl(null);
+                  setImage(null);
+                  invalidateResults();
+                }}
+              >
+                Trocar imagem
+              </Button>
+            </div>
+
+            {exportSet.outputs.map((output, index) => {
+              const status = statuses[output.id];
+              const isIncluded = !excluded.includes(output.id);
+              return (
+                <div
+                  key={output.id}
+                  className={`flex gap-3 p-3 rounded-lg border-2 bg-card ${
+                    selectedId === output.id ? 'border-primary' : 'border-border'
+                  } ${isIncluded ? '' : 'opacity-50'}`}
+                >
+                  {crops[output.id] && <CropThumbnail image={image} crop={crops[output.id]} output={output} />}
+                  <div className="flex-1 min-w-0 flex flex-col gap-1 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        checked={isIncluded}
+                        disabled={isExporting}
+                        onCheckedChange={(checked) => setExcluded(prev => checked === true
+                          ? prev.filter(id => id !== output.id)
+                          : [...prev, output.id])}
+                        aria-label={`Incluir ${output.name}`}
+                      />
+                      <span
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: CROP_COLORS[index % CROP_COLORS.length] }}
+                      />
+                      <span className="font-medium truncate">{output.name}</span>
+                    </div>
+                    <span className="text-muted-foreground">
+                      {output.width}×{output.height} · {getFormatLabel(activeProfile.format)}
+                      {adjustments[output.id] && ' · ajustado'}
+                    </span>
+                    {status?.state === 'processing' && <span className="text-muted-foreground">⏳ Convertendo...</span>}
+                    {status?.state === 'error' && <span className="text-destructive">{status.message}</span>}
+                    {status?.state === 'done' && (
+                      <span className={status.result.details.withinBudget ? 'text-muted-foreground' : 'text-destructive'}>
+                        {!status.result.details.withinBudget && <AlertTriangle className="inline w-3 h-3 mr-1" />}
+                        {(status.result.size / 1024).toFixed(1)} / {status.result.maxKB} KB ·
+                        q{Math.round(status.result.details.quality * 100)}%
+                      </span>
+                    )}
+                    {status?.state === 'done' && status.result.compliance && (
+                      <ComplianceReport
+                        compact
+                        report={status.result.compliance.report}
+                        profileName={status.result.compliance.profileName}
+                      />
+                    )}
+                    <div className="flex gap-2 mt-auto">
+                      <Button
+                        size="sm"
+                        variant={selectedId === output.id ? 'default' : 'outline'}
+                        disabled={isExporting || !isIncluded}
+                        onClick={() => setSelectedId(selectedId === output.id ? null : output.id)}
+                      >
+                        Ajustar
+                      </Button>
+                      {status?.state === 'done' && canDownload && (
+                        <Button size="sm" variant="ghost" onClick={() => downloadResult(status.result)} title={status.result.filename}>
+                          <Download className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            <div className="flex gap-2">
+              {isExporting ? (
+                <Button variant="outline" className="flex-1" onClick={() => controllerRef.current?.abort()}>
+                  <Square className="w-4 h-4" />
+                  Cancelar
+                </Button>
+              ) : (
+                <Button
+                  className="flex-1 bg-gradient-primary hover:opacity-90"
+                  disabled={!image || includedOutputs.length === 0}
+                  onClick={handleExport}
+                >
+                  🚀 Exportar {includedOutputs.length} {includedOutputs.length === 1 ? 'imagem' : 'imagens'}
+                </Button>
+              )}
+              {doneResults.length > 0 && canDownload && !isExporting && (
+                <Button variant="secondary" onClick={downloadAll}>
+                  📥 Baixar Todas ({doneResults.length})
+                </Button>
+              )}
+            </div>
+            {saveState === 'saving' && (
+              <p className="text-sm text-muted-foreground">Salvando as imagens para download...</p>
+            )}
+            {saveState === 'failed' && (
+              <p className="text-sm text-destructive flex items-center gap-1">
+                <AlertTriangle className="w-4 h-4" />
+                Não foi possível salvar as imagens, então elas não podem ser baixadas. Exporte o conjunto de novo.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportSetMode;
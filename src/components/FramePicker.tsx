@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ChevronLeft, ChevronRight, Plus, X } from 'lucide-react';
+import { openFrameSource, type FrameSource } from '@/utils/frameSource';
+import type { DetectedFormat } from '@/utils/fileSniffing';
+
+interface PickedFrame {
+  position: number;
+  file: File;
+  url: string;
+}
+
+interface FramePickerProps {
+  file: File;
+  // Identified from the file contents
+  format: DetectedFormat;
+  onPick: (frames: File[]) => void;
+  // Only offered for animated images: convert the whole animation instead
+  onUseWhole?: () => void;
+  onCancel: () => void;
+}
+
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${String(minutes).padStart(2, '0')}:${(seconds - minutes * 60).toFixed(2).padStart(5, '0')}`;
+};
+
+const bitmapToPng = (bitmap: ImageBitmap): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Não foi possível capturar o quadro.')), 'image/png');
+  });
+};
+
+const FramePicker: React.FC<FramePickerProps> = ({ file, format, onPick, onUseWhole, onCancel }) => {
+  const [source, setSource] = useState<FrameSource | null>(null);
+  const [position, setPosition] = useState(0);
+  const [picked, setPicked] = useState<PickedFrame[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pickedRef = useRef(picked);
+  pickedRef.current = picked;
+
+  useEffect(() => {
+    let opened: FrameSource | null = null;
+    let cancelled = false;
+
+    openFrameSource(file, format)
+      .then(frameSource => {
+        if (cancelled) {
+          frameSource.close();
+          return;
+        }
+        opened = frameSource;
+        setSource(frameSource);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Não foi possível abrir o arquivo.'));
+
+    return () => {
+      cancelled = true;
+      opened?.close();
+    };
+  }, [file, format]);
+
+  // Release thumbnails that were never handed over to the pipeline
+  useEffect(() => () => pickedRef.current.forEach(frame => URL.revokeObjectURL(frame.url)), []);
+
+  // Draw the frame under the scrubber; a late answer for an older position is dropped
+  useEffect(() => {
+    if (!source) return;
+    let stale = false;
+
+    source.getFrame(position)
+      .then(bitmap => {
+        const canvas = canvasRef.current;
+        if (!stale && canvas) {
+          canvas.width = bitmap.width;
+          canvas.height = bitmap.height;
+          canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+        }
+        bitmap.close();
+      })
+      .catch(err => !stale && setError(err instanceof Error ? err.message : 'Não foi possível decodificar o quadro.'));
+
+    return () => {
+      stale = true;
+    };
+  }, [source, position]);
+
+  const lastPosition = source ? (source.kind === 'animation' ? source.length - 1 : source.length) : 0;
+
+  const stepBy = useCallback((direction: number) => {
+    if (!source) return;
+    setPosition(current => Math.min(lastPosition, Math.max(0, current + direction * source.step)));
+  }, [source, lastPosition]);
+
+  const describePosition = (value: number): string => {
+    if (!source) return '';
+    return source.kind === 'video'
+      ? `${formatTime(value)} / ${formatTime(source.length)}`
+      : `Quadro ${Math.round(value) + 1} de ${source.length}`;
+  };
+
+  const addFrame = useCallback(async () => {
+    if (!source || picked.some(frame => frame.position === position)) return;
+    setIsCapturing(true);
+
+    try {
+      const bitmap = await source.getFrame(position);
+      const blob = await bitmapToPng(bitmap);
+      bitmap.close();
+
+      const baseName = file.name.replace(/\.[^/.]+$/, '');
+      const suffix = source.kind === 'video' ? `${position.toFixed(2)}s` : `quadro-${Math.round(position) + 1}`;
+      const frameFile = new File([blob], `${baseName}-${suffix}.png`, { type: 'image/png' });
+      const frame = { position, file: frameFile, url: URL.createObjectURL(frameFile) };
+      setPicked(prev => [...prev, frame].sort((a, b) => a.position - b.position));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Não foi possível capturar o quadro.');
+    } finally {
+      setIsCapturing(false);
+    }
+  }, [source, position, picked, file]);
+
+  const removeFrame = useCallback((frame: PickedFrame) => {
+    URL.revokeObjectURL(frame.url);
+    setPicked(prev => prev.filter(f => f !== frame));
+  }, []);
+
+  const handleUseFrames = () => {
+    const files = picked.map(frame => frame.file);
+    picked.forEach(frame => URL.revokeObjectURL(frame.url));
+    setPicked([]);
+    onPick(files);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-6 w-full">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold gradient-text">Escolher Quadros</h2>
+        <p className="text-muted-foreground">{file.name}</p>
+      </div>
+
+      <div className="bg-card p-4 rounded-xl border border-border shadow-card w-full max-w-3xl flex flex-col gap-4">
+        {source ? (
+          <canvas ref={canvasRef} className="max-w-full max-h-[50vh] mx-auto object-contain" />
+        ) : !error && (
+          <p className="text-center text-muted-foreground py-16">Carregando quadros...</p>
+        )}
+
+        {source && (
+          <>
+            <div className="flex items-center gap-3">
+              <Button size="icon" variant="outline" onClick={() => stepBy(-1)} title="Quadro anterior">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Slider
+                value={[position]}
+                min={0}
+                max={lastPosition}
+                step={source.step}
+                onValueChange={([value]) => setPosition(value)}
+              />
+              <Button size="icon" variant="outline" onClick={() => stepBy(1)} title="Próximo quadro">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">{describePosition(position)}</span>
+              <Button size="sm" onClick={addFrame} disabled={isCapturing}>
+                <Plus className="w-4 h-4" />
+                Adicionar quadro
+              </Button>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-destructive text-center">{error}</p>}
+      </div>
+
+      {picked.length > 0 && (
+        <div className="flex flex-wrap gap-3 justify-center max-w-3xl">
+          {picked.map(frame => (
+            <div key={frame.position} className="relative group">
+              <button
+                onClick={() => setPosition(frame.position)}
+                className="block rounded-lg overflow-hidden border-2 border-border hover:border-primary"
+                title={describePosition(frame.position)}
+              >
+                <img src={frame.url} alt={frame.file.name} className="h-20 w-20 object-cover" />
+              </button>
+              <button
+                onClick={() => removeFrame(frame)}
+                className="absolute -top-2 -right-2 bg-destructive text-destructive-foreground rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-4 w-full justify-center">
+        <Button onClick={onCancel} variant="outline">
+          Cancelar
+        </Button>
+        {onUseWhole && (
+          <Button onClick={onUseWhole} variant="secondary">
+            Converter a animação inteira
+          </Button>
+        )}
+        <Button
+          onClick={handleUseFrames}
+          disabled={picked.length === 0}
+          className="bg-gradient-primary hover:opacity-90"
+        >
+          {picked.length > 1 ? `Converter ${picked.length} quadros em lote` : 'Converter quadro'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FramePicker;
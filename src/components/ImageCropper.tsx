@@ -1,16 +1,35 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Pipette } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
 import Spinner from './Spinner';
+import type { CropRect } from '@/utils/imageWorkerPool';
+import { MAX_FEATHER, applyBackground, toHexColor, type BackgroundOptions } from '@/utils/background';
 
 interface ImageCropperProps {
   imageSrc: string;
-  onSave: (croppedCanvas: HTMLCanvasElement, forceSquare: boolean) => void;
+  onSave: (croppedImage: ImageBitmap, forceSquare: boolean, background: BackgroundOptions) => void;
   onCancel: () => void;
+  // Crop suggested by the worker (e.g. smart crop), in natural image pixels
+  initialCrop?: CropRect;
+  // Background steps of the active profile, adjustable for this image
+  background: BackgroundOptions;
 }
 
-const ImageCropper: React.FC<ImageCropperProps> = ({ imageSrc, onSave, onCancel }) => {
+// Screen colour picker, only available in Chromium browsers
+type EyeDropperConstructor = new () => { open: () => Promise<{ sRGBHex: string }> };
+
+const PREVIEW_SIDE = 240;
+
+const ImageCropper: React.FC<ImageCropperProps> = ({ imageSrc, onSave, onCancel, initialCrop, background: profileBackground }) => {
   const [isSaving, setIsSaving] = useState(false);
+  const [background, setBackground] = useState<BackgroundOptions>(profileBackground);
+  const [isPickingColor, setIsPickingColor] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement>(null);
   const [crop, setCrop] = useState({ x: 0, y: 0, width: 300, height: 300 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
@@ -26,6 +45,18 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ imageSrc, onSave, onCancel
     if (imgRef.current) {
       const rect = imgRef.current.getBoundingClientRect();
       setImageSize({ width: rect.width, height: rect.height });
+
+      // Open pre-positioned on the suggested crop when there is one
+      if (initialCrop) {
+        const scale = rect.width / imgRef.current.naturalWidth;
+        setCrop({
+          x: initialCrop.x * scale,
+          y: initialCrop.y * scale,
+          width: Math.min(initialCrop.width * scale, rect.width),
+          height: Math.min(initialCrop.height * scale, rect.height)
+        });
+        return;
+      }
       
       // Center the initial crop
       const initialSize = Math.min(rect.width, rect.height) * 0.6;
@@ -38,11 +69,12 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ imageSrc, onSave, onCancel
     }
   };
 
-  const getCroppedCanvas = (forceSquare: boolean = false): HTMLCanvasElement => {
+  // Cut the crop region straight from the decoded image; the bitmap is then
+  // transferred to the worker without any PNG/data URL round-trip
+  const getCroppedBitmap = (forceSquare: boolean = false): Promise<ImageBitmap> => {
     if (!imgRef.current) throw new Error('Image not loaded');
     
     const image = imgRef.current;
-    const canvas = document.createElement('canvas');
     const scaleX = image.naturalWidth / image.width;
     const scaleY = image.naturalHeight / image.height;
     
@@ -59,37 +91,88 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ imageSrc, onSave, onCancel
       };
     }
     
-    canvas.width = finalCrop.width * scaleX;
-    canvas.height = finalCrop.height * scaleY;
-    const ctx = canvas.getContext('2d');
+    return createImageBitmap(
+      image,
+      Math.round(finalCrop.x * scaleX),
+      Math.round(finalCrop.y * scaleY),
+      Math.max(1, Math.round(finalCrop.width * scaleX)),
+      Math.max(1, Math.round(finalCrop.height * scaleY))
+    );
+  };
+
+  const updateBackground = (changes: Partial<BackgroundOptions>) => {
+    setBackground(prev => ({ ...prev, ...changes }));
+  };
 
-    if (!ctx) throw new Error('Could not get canvas context.');
+  // Live preview of the crop with the background steps, drawn over a checkerboard;
+  // skipped while dragging so moving the crop stays smooth
+  useEffect(() => {
+    const image = imgRef.current;
+    const canvas = previewRef.current;
+    if (!image || !canvas || imageSize.width === 0 || isDragging || isResizing) return;
 
-    // Use high-quality smoothing
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = 'high';
+    const scaleX = image.naturalWidth / image.width;
+    const scaleY = image.naturalHeight / image.height;
+    const sourceWidth = crop.width * scaleX;
+    const sourceHeight = crop.height * scaleY;
+    const scale = Math.min(1, PREVIEW_SIDE / Math.max(sourceWidth, sourceHeight));
+    canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+    canvas.height = Math.max(1, Math.round(sourceHeight * scale));
 
-    ctx.drawImage(
-      image,
-      finalCrop.x * scaleX,
-      finalCrop.y * scaleY,
-      finalCrop.width * scaleX,
-      finalCrop.height * scaleY,
-      0,
-      0,
-      canvas.width,
-      canvas.height
-    );
-    
-    return canvas;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, crop.x * scaleX, crop.y * scaleY, sourceWidth, sourceHeight, 0, 0, canvas.width, canvas.height);
+    if (background.remove || background.flatten) {
+      const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      applyBackground(pixels, background);
+      ctx.putImageData(pixels, 0, 0);
+    }
+  }, [crop, background, imageSize, isDragging, isResizing]);
+
+  const handlePickColor = async () => {
+    const EyeDropper = (window as Window & { EyeDropper?: EyeDropperConstructor }).EyeDropper;
+    if (!EyeDropper) {
+      // No native eyedropper: the next click on the image picks its colour
+      setIsPickingColor(true);
+      return;
+    }
+    try {
+      const { sRGBHex } = await new EyeDropper().open();
+      updateBackground({ flatten: true, flattenColor: sRGBHex.toLowerCase() });
+    } catch {
+      // The user dismissed the eyedropper
+    }
   };
 
-  const handleSaveCrop = (forceSquare: boolean = false) => {
+  const handlePickFromImage = (e: React.MouseEvent) => {
+    const image = imgRef.current;
+    if (!isPickingColor || !image) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setIsPickingColor(false);
+
+    const rect = image.getBoundingClientRect();
+    const x = Math.floor((e.clientX - rect.left) * image.naturalWidth / rect.width);
+    const y = Math.floor((e.clientY - rect.top) * image.naturalHeight / rect.height);
+    if (x < 0 || y < 0 || x >= image.naturalWidth || y >= image.naturalHeight) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(image, x, y, 1, 1, 0, 0, 1, 1);
+    const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+    updateBackground({ flatten: true, flattenColor: toHexColor(r, g, b) });
+  };
+
+  const handleSaveCrop = async (forceSquare: boolean = false) => {
     if (!imgRef.current) return;
     setIsSaving(true);
     try {
-      const canvas = getCroppedCanvas(forceSquare);
-      onSave(canvas, forceSquare);
+      const bitmap = await getCroppedBitmap(forceSquare);
+      onSave(bitmap, forceSquare, background);
     } catch (e) {
       console.error("Error processing crop:", e);
       setIsSaving(false);
@@ -202,7 +285,10 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ imageSrc, onSave, onCancel
       
       <div 
         ref={containerRef}
-        className="relative bg-card p-4 rounded-xl border border-border shadow-card overflow-hidden"
+        className={`relative bg-card p-4 rounded-xl border border-border shadow-card overflow-hidden ${
+          isPickingColor ? 'cursor-crosshair' : ''
+        }`}
+        onMouseDownCapture={handlePickFromImage}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
@@ -276,9 +362,73 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ imageSrc, onSave, onCancel
       </div>
 
       <p className="text-muted-foreground text-center max-w-md">
-        Arraste para mover a área de seleção. Use os pontos e bordas para redimensionar livremente.
+        {isPickingColor
+          ? 'Clique na imagem para escolher a cor de fundo.'
+          : 'Arraste para mover a área de seleção. Use os pontos e bordas para redimensionar livremente.'}
       </p>
 
+      <div className="w-full max-w-3xl bg-card rounded-xl p-4 border border-border shadow-card flex flex-col md:flex-row gap-6">
+        <div className="flex flex-col items-center gap-2">
+          <canvas ref={previewRef} className="checkerboard rounded border border-border max-w-[240px]" />
+          <span className="text-xs text-muted-foreground">Prévia do fundo</span>
+        </div>
+
+        <div className="flex-1 flex flex-col gap-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="cropper-remove-background"
+              checked={background.remove}
+              onCheckedChange={(checked) => updateBackground({ remove: checked === true })}
+            />
+            <Label htmlFor="cropper-remove-background">Remover fundo uniforme (a partir das bordas)</Label>
+          </div>
+          {background.remove && (
+            <div className="grid grid-cols-[8rem,1fr,3rem] items-center gap-3 text-sm">
+              <Label>Tolerância</Label>
+              <Slider
+                min={0}
+                max={50}
+                step={1}
+                value={[background.tolerance]}
+                onValueChange={([tolerance]) => updateBackground({ tolerance })}
+              />
+              <span className="text-muted-foreground">{background.tolerance}%</span>
+              <Label>Suavização</Label>
+              <Slider
+                min={0}
+                max={MAX_FEATHER}
+                step={1}
+                value={[background.feather]}
+                onValueChange={([feather]) => updateBackground({ feather })}
+              />
+              <span className="text-muted-foreground">{background.feather} px</span>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Checkbox
+              id="cropper-flatten"
+              checked={background.flatten}
+              onCheckedChange={(checked) => updateBackground({ flatten: checked === true })}
+            />
+            <Label htmlFor="cropper-flatten">Achatar a transparência sobre</Label>
+            <Input
+              type="color"
+              className="h-8 w-14 p-1"
+              aria-label="Cor de fundo"
+              value={background.flattenColor}
+              onChange={(e) => updateBackground({ flatten: true, flattenColor: e.target.value })}
+            />
+            <Button size="sm" variant="outline" onClick={handlePickColor} title="Conta-gotas">
+              <Pipette className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            JPEG não guarda transparência: nele o fundo é sempre achatado sobre esta cor.
+          </p>
+        </div>
+      </div>
+
       <div className="flex flex-col sm:flex-row gap-4 w-full justify-center">
         <Button
           onClick={onCancel}
@@ -1,24 +1,61 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { AlertTriangle, MapPin } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import MetadataPanel from './MetadataPanel';
+import ComplianceReport from './ComplianceReport';
+import { getFormatLabel } from '@/utils/formats';
+import type { ConversionDetails } from '@/utils/imageWorkerPool';
+import type { ImageMetadata } from '@/utils/metadata';
+import type { DetectedFormat } from '@/utils/fileSniffing';
+import type { ComplianceReport as Report } from '@/utils/compliance';
 
 interface ImagePreviewProps {
   imageSrc: string;
   fileName: string;
   fileSize: number;
+  mimeType?: string;
   originalImageSrc?: string;
+  details?: ConversionDetails;
+  maxKB?: number;
+  originalMetadata?: ImageMetadata;
+  originalFormat?: DetectedFormat;
+  // Marketplace validation of the converted image, when the profile has rules
+  complianceReport?: Report;
+  profileName?: string;
 }
 
-const ImagePreview: React.FC<ImagePreviewProps> = ({ imageSrc, fileName, fileSize, originalImageSrc }) => {
+const ImagePreview: React.FC<ImagePreviewProps> = ({
+  imageSrc,
+  fileName,
+  fileSize,
+  mimeType = 'image/webp',
+  originalImageSrc,
+  details,
+  maxKB,
+  originalMetadata,
+  originalFormat,
+  complianceReport,
+  profileName = ''
+}) => {
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copying' | 'copied' | 'failed'>('idle');
   
   const formatFileSize = (bytes: number): string => {
     return `${(bytes / 1024).toFixed(1)} KB`;
   };
 
+  // Measured fidelity, only present when the profile targets SSIM
+  const formatMetrics = (): string => {
+    if (details?.ssim === undefined) return '';
+    const psnr = details.psnr === undefined ? '' :
+      ` · PSNR ${Number.isFinite(details.psnr) ? `${details.psnr.toFixed(1)} dB` : '∞'}`;
+    return ` · SSIM ${details.ssim.toFixed(3)}${psnr}`;
+  };
+
   const handleCopy = async () => {
     setCopyStatus('copying');
     try {
-      // Convert the WebP image to PNG for clipboard compatibility
+      // Convert the image to PNG for clipboard compatibility
       const img = new Image();
       img.onload = () => {
         const canvas = document.createElement('canvas');
@@ -60,7 +97,7 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({ imageSrc, fileName, fileSiz
 
   const handleDragStart = (e: React.DragEvent<HTMLImageElement>) => {
     // This provides a filename hint for drag and drop
-    e.dataTransfer.setData('DownloadURL', `image/webp:${fileName}:${imageSrc}`);
+    e.dataTransfer.setData('DownloadURL', `${mimeType}:${fileName}:${imageSrc}`);
   };
 
   const getCopyButtonText = () => {
@@ -79,33 +116,52 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({ imageSrc, fileName, fileSiz
         <h3 className="text-xl font-semibold gradient-text mb-4 text-center">
           Comparação: Antes vs Depois
         </h3>
+
+        {originalMetadata?.gps && (
+          <Alert variant="destructive" className="mb-6">
+            <MapPin className="h-4 w-4" />
+            <AlertTitle>A imagem original contém a localização GPS</AlertTitle>
+            <AlertDescription>
+              O arquivo original revela onde a foto foi tirada
+              ({originalMetadata.gps.latitude.toFixed(5)}, {originalMetadata.gps.longitude.toFixed(5)}).
+              A imagem convertida não inclui essas coordenadas, mas evite compartilhar o original.
+            </AlertDescription>
+          </Alert>
+        )}
         
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className={`grid grid-cols-1 gap-6 ${originalMetadata ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
           {/* Original */}
           {originalImageSrc && (
             <div className="bg-card rounded-xl p-4 shadow-card border border-border">
               <h4 className="text-sm font-medium text-muted-foreground mb-3 text-center">
-                Original
+                Original{originalFormat && ` — ${originalFormat.label}`}
               </h4>
+              {originalFormat?.declaredType !== undefined && (
+                <p className="text-xs text-muted-foreground -mt-2 mb-3 text-center">
+                  Formato identificado pelo conteúdo (o arquivo dizia {originalFormat.declaredType || 'tipo desconhecido'})
+                </p>
+              )}
               <img
                 src={originalImageSrc}
                 alt="Imagem original"
-                className="rounded-lg shadow-lg max-w-full h-auto max-h-48 object-contain mx-auto"
+                className="rounded-lg shadow-lg max-w-full h-auto max-h-48 object-contain mx-auto checkerboard"
               />
             </div>
           )}
+
+          {originalMetadata && <MetadataPanel metadata={originalMetadata} />}
           
           {/* Convertida */}
           <div className="bg-card rounded-xl p-4 shadow-card border border-border">
             <h4 className="text-sm font-medium text-primary mb-3 text-center">
-              Convertida ({formatFileSize(fileSize)})
+              Convertida — {getFormatLabel(mimeType)} ({formatFileSize(fileSize)}{formatMetrics()})
             </h4>
             <img
               src={imageSrc}
               alt="Imagem convertida"
               draggable="true"
               onDragStart={handleDragStart}
-              className="cursor-grab rounded-lg shadow-lg max-w-full h-auto max-h-48 object-contain mx-auto tech-glow"
+              className="cursor-grab rounded-lg shadow-lg max-w-full h-auto max-h-48 object-contain mx-auto tech-glow checkerboard"
               title={`Arraste para salvar como ${fileName}`}
             />
           </div>
@@ -114,8 +170,29 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({ imageSrc, fileName, fileSiz
       
       <div className="text-center">
         <p className="text-primary font-semibold text-lg">{fileName}</p>
-        <p className="text-muted-foreground">{formatFileSize(fileSize)}</p>
+        <p className="text-muted-foreground">{formatFileSize(fileSize)}{formatMetrics()}</p>
+        {details && (
+          <p className="text-sm text-muted-foreground">
+            {details.width}×{details.height} px · qualidade {Math.round(details.quality * 100)}% ·{' '}
+            {details.frames !== undefined && `animação com ${details.frames} quadros · `}
+            {details.encodes} {details.encodes === 1 ? 'codificação' : 'codificações'}
+          </p>
+        )}
+        {details?.analysis && (
+          <p className="text-sm text-muted-foreground">
+            Produto ocupa {Math.round(details.analysis.fill * 100)}% do quadro pelo maior lado
+            {details.trimmed === false && ' · nenhuma borda uniforme para cortar, usado o enquadramento do perfil'}
+          </p>
+        )}
+        {details && !details.withinBudget && (
+          <p className="mt-2 flex items-center justify-center gap-1 text-sm text-destructive">
+            <AlertTriangle className="w-4 h-4" />
+            Acima do orçamento{maxKB !== undefined ? ` de ${maxKB} KB` : ''} mesmo na menor qualidade
+          </p>
+        )}
       </div>
+
+      {complianceReport && <ComplianceReport report={complianceReport} profileName={profileName} />}
       
       <div className="flex flex-col sm:flex-row gap-4 w-full justify-center">
         <Button asChild variant="default" className="bg-gradient-primary hover:opacity-90 tech-glow">
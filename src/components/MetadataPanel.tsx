@@ -0,0 +1,70 @@
+import React from 'react';
+import { isTransposedOrientation, type ImageMetadata } from '@/utils/metadata';
+
+interface MetadataPanelProps {
+  metadata: ImageMetadata;
+}
+
+const ORIENTATION_LABELS: Record<number, string> = {
+  1: 'Normal',
+  2: 'Espelhada',
+  3: 'Girada 180°',
+  4: 'Espelhada na vertical',
+  5: 'Espelhada e girada 90° à esquerda',
+  6: 'Girada 90° à direita',
+  7: 'Espelhada e girada 90° à direita',
+  8: 'Girada 90° à esquerda'
+};
+
+const formatCoordinates = ({ latitude, longitude }: { latitude: number; longitude: number }): string =>
+  `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+
+const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata }) => {
+  const { width, height, orientation } = metadata;
+
+  // Show the dimensions as displayed, i.e. after applying the orientation
+  const dimensions = width && height
+    ? isTransposedOrientation(orientation) ? `${height}×${width} px` : `${width}×${height} px`
+    : undefined;
+  // Many cameras already repeat the make at the start of the model
+  const camera = metadata.make && metadata.model?.startsWith(metadata.make)
+    ? metadata.model
+    : [metadata.make, metadata.model].filter(Boolean).join(' ');
+
+  const rows: [string, string | undefined][] = [
+    ['Formato', metadata.format?.toUpperCase()],
+    ['Câmera', camera || undefined],
+    ['Lente', metadata.lens],
+    ['Data', metadata.dateTaken],
+    ['Dimensões', dimensions],
+    ['Orientação', orientation !== 1 ? ORIENTATION_LABELS[orientation] : metadata.rotation ? `Girada ${metadata.rotation}°` : undefined],
+    ['Perfil de cor', metadata.colorProfile],
+    ['Autor', metadata.author],
+    ['Direitos', metadata.copyright],
+    ['Software', metadata.software],
+    ['GPS', metadata.gps && formatCoordinates(metadata.gps)]
+  ];
+  const visibleRows = rows.filter(([, value]) => value);
+
+  return (
+    <div className="bg-card rounded-xl p-4 shadow-card border border-border">
+      <h4 className="text-sm font-medium text-muted-foreground mb-3 text-center">
+        Metadados
+      </h4>
+      {visibleRows.length > 0 ? (
+        <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+          {visibleRows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className={`break-words ${label === 'GPS' ? 'text-destructive font-medium' : ''}`}>{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-xs text-muted-foreground text-center">Nenhum metadado encontrado.</p>
+      )}
+    </div>
+  );
+};
+
+export default MetadataPanel;
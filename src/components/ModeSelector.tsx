@@ -1,9 +1,9 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Image, Images } from 'lucide-react';
+import { Crop, Image, Images } from 'lucide-react';
 
 interface ModeSelectorProps {
-  onSelectMode: (mode: 'individual' | 'batch') => void;
+  onSelectMode: (mode: 'individual' | 'batch' | 'sets') => void;
 }
 
 const ModeSelector: React.FC<ModeSelectorProps> = ({ onSelectMode }) => {
@@ -18,7 +18,7 @@ const ModeSelector: React.FC<ModeSelectorProps> = ({ onSelectMode }) => {
         </p>
       </div>
       
-      <div className="grid md:grid-cols-2 gap-6 w-full max-w-4xl">
+      <div className="grid md:grid-cols-3 gap-6 w-full max-w-5xl">
         <button
           onClick={() => onSelectMode('individual')}
           className="group p-8 rounded-xl border-2 border-border hover:border-primary transition-all duration-300 bg-card shadow-card hover:shadow-glow cursor-pointer"
@@ -48,6 +48,21 @@ const ModeSelector: React.FC<ModeSelectorProps> = ({ onSelectMode }) => {
             </p>
           </div>
         </button>
+
+        <button
+          onClick={() => onSelectMode('sets')}
+          className="group p-8 rounded-xl border-2 border-border hover:border-primary transition-all duration-300 bg-card shadow-card hover:shadow-glow cursor-pointer"
+        >
+          <div className="flex flex-col items-center gap-4">
+            <div className="w-20 h-20 rounded-full bg-primary/10 flex items-center justify-center group-hover:bg-primary/20 transition-colors">
+              <Crop className="w-10 h-10 text-primary" />
+            </div>
+            <h3 className="text-2xl font-bold">Conjuntos de Exportação</h3>
+            <p className="text-muted-foreground text-center">
+              Gere feed, story, banner e outras proporções de uma só foto a partir de um ponto focal
+            </p>
+          </div>
+        </button>
       </div>
     </div>
   );
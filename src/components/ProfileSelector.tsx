@@ -0,0 +1,718 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEncodingProfiles } from '@/hooks/use-encoding-profiles';
+import {
+  FIT_MODE_LABELS,
+  MAX_SHARPEN_AMOUNT,
+  MAX_TRIM_MARGIN_PERCENT,
+  QUALITY_TARGET_LABELS,
+  RESAMPLE_FILTER_LABELS,
+  MAX_PROFILE_DIMENSION,
+  RESPONSIVE_FORMAT_ORDER,
+  createProfileId,
+  describeProfile,
+  getTrimFillPercent,
+  isBuiltInProfile,
+  suggestResponsiveMaxKB,
+  validateProfile,
+  type BackgroundOptions,
+  type ComplianceRules,
+  type EncodingProfile,
+  type FitMode,
+  type MetadataTemplate,
+  type OutputFormat,
+  type QualityTarget,
+  type ResampleFilter,
+  type ResponsiveOptions,
+  type ResponsiveWidth,
+  type TrimOptions
+} from '@/utils/profiles';
+import { OUTPUT_FORMATS, detectEncodableFormats, getFormatLabel, supportsAlpha } from '@/utils/formats';
+import { supportsMetadataEmbedding } from '@/utils/metadataWriter';
+import { MAX_FEATHER } from '@/utils/background';
+
+interface ProfileSelectorProps {
+  disabled?: boolean;
+}
+
+const ProfileSelector: React.FC<ProfileSelectorProps> = ({ disabled }) => {
+  const { profiles, activeProfile, setActiveProfile, upsertProfile, deleteProfile } = useEncodingProfiles();
+  const [draft, setDraft] = useState<EncodingProfile | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [encodableFormats, setEncodableFormats] = useState<OutputFormat[] | null>(null);
+
+  useEffect(() => {
+    detectEncodableFormats().then(setEncodableFormats);
+  }, []);
+
+  const isFormatSupported = (format: OutputFormat) =>
+    encodableFormats === null || encodableFormats.includes(format);
+
+  // Built-in profiles (the default and the marketplace presets) are copied, not edited
+  const isBuiltIn = isBuiltInProfile(activeProfile.id);
+
+  const openEditor = (profile: EncodingProfile) => {
+    setDraft({ ...profile });
+    setDraftError(null);
+  };
+
+  const updateDraft = (changes: Partial<EncodingProfile>) => {
+    setDraft(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const updateMetadata = (changes: Partial<MetadataTemplate>) => {
+    setDraft(prev => prev ? { ...prev, metadata: { ...prev.metadata, ...changes } } : prev);
+  };
+
+  const updateResponsive = (changes: Partial<ResponsiveOptions>) => {
+    setDraft(prev => prev ? { ...prev, responsive: { ...prev.responsive, ...changes } } : prev);
+  };
+
+  const updateResponsiveWidth = (index: number, changes: Partial<ResponsiveWidth>) => {
+    if (!draft) return;
+    updateResponsive({
+      widths: draft.responsive.widths.map((entry, i) => i === index ? { ...entry, ...changes } : entry)
+    });
+  };
+
+  // Each new width doubles the largest one, with a budget proportional to its area
+  const addResponsiveWidth = () => {
+    if (!draft) return;
+    const largest = Math.max(0, ...draft.responsive.widths.map(({ width }) => width));
+    const width = Math.min(MAX_PROFILE_DIMENSION, largest > 0 ? largest * 2 : draft.width);
+    updateResponsive({
+      widths: [...draft.responsive.widths, { width, maxKB: suggestResponsiveMaxKB(draft, width) }]
+    });
+  };
+
+  const updateBackground = (changes: Partial<BackgroundOptions>) => {
+    setDraft(prev => prev ? { ...prev, background: { ...prev.background, ...changes } } : prev);
+  };
+
+  const updateTrim = (changes: Partial<TrimOptions>) => {
+    setDraft(prev => prev ? { ...prev, trim: { ...prev.trim, ...changes } } : prev);
+  };
+
+  const updateCompliance = (changes: Partial<ComplianceRules>) => {
+    setDraft(prev => prev ? { ...prev, compliance: { ...prev.compliance, ...changes } } : prev);
+  };
+
+  const toggleAllowedFormat = (format: OutputFormat, checked: boolean) => {
+    if (!draft) return;
+    const allowedFormats = checked
+      ? (Object.keys(OUTPUT_FORMATS) as OutputFormat[]).filter(f => f === format || draft.compliance.allowedFormats.includes(f))
+      : draft.compliance.allowedFormats.filter(f => f !== format);
+    updateCompliance({ allowedFormats });
+  };
+
+  const toggleResponsiveFormat = (format: OutputFormat, checked: boolean) => {
+    if (!draft) return;
+    const formats = checked
+      ? RESPONSIVE_FORMAT_ORDER.filter(f => f === format || draft.responsive.formats.includes(f))
+      : draft.responsive.formats.filter(f => f !== format);
+    updateResponsive({ formats });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const validationError = validateProfile(draft);
+    if (validationError) {
+      setDraftError(validationError);
+      return;
+    }
+    upsertProfile(draft);
+    setActiveProfile(draft.id);
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={activeProfile.id} onValueChange={setActiveProfile} disabled={disabled}>
+        <SelectTrigger className="h-9 w-[240px]" title={describeProfile(activeProfile)}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={disabled}
+        title="Novo perfil"
+        onClick={() => openEditor({ ...activeProfile, id: createProfileId(), name: `${activeProfile.name} (cópia)` })}
+      >
+        <Plus className="w-4 h-4" />
+      </Button>
+      {!isFormatSupported(activeProfile.format) && (
+        <span
+          className="flex items-center gap-1 text-xs text-destructive"
+          title={`Este navegador não consegue gerar ${getFormatLabel(activeProfile.format)}`}
+        >
+          <AlertTriangle className="w-4 h-4" />
+          {getFormatLabel(activeProfile.format)} não suportado
+        </span>
+      )}
+      {!isBuiltIn && (
+        <>
+          <Button size="sm" variant="outline" disabled={disabled} title="Editar perfil" onClick={() => openEditor(activeProfile)}>
+            <Pencil className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" disabled={disabled} title="Excluir perfil" onClick={() => deleteProfile(activeProfile.id)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </>
+      )}
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Perfil de codificação</DialogTitle>
+            <DialogDescription>
+              Defina o tamanho de saída, o orçamento de tamanho e o formato das imagens.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2 grid gap-2">
+                <Label htmlFor="profile-name">Nome</Label>
+                <Input
+                  id="profile-name"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="profile-width">Largura (px)</Label>
+                <Input
+                  id="profile-width"
+                  type="number"
+                  min={1}
+                  value={draft.width}
+                  onChange={(e) => updateDraft({ width: Number(e.target.value) })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="profile-height">Altura (px)</Label>
+                <Input
+                  id="profile-height"
+                  type="number"
+                  min={1}
+                  value={draft.height}
+                  onChange={(e) => updateDraft({ height: Number(e.target.value) })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Objetivo</Label>
+                <Select value={draft.target} onValueChange={(target: QualityTarget) => updateDraft({ target })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(QUALITY_TARGET_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.target === 'ssim' ? (
+                <div className="grid gap-2">
+                  <Label htmlFor="profile-min-ssim">SSIM mínimo</Label>
+                  <Input
+                    id="profile-min-ssim"
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.005}
+                    value={draft.minSsim}
+                    onChange={(e) => updateDraft({ minSsim: Number(e.target.value) })}
+                  />
+                </div>
+              ) : <div />}
+              <div className="grid gap-2">
+                <Label htmlFor="profile-min-kb">Mínimo (KB)</Label>
+                <Input
+                  id="profile-min-kb"
+                  type="number"
+                  min={0}
+                  disabled={draft.target === 'ssim'}
+                  value={draft.minKB}
+                  onChange={(e) => updateDraft({ minKB: Number(e.target.value) })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="profile-max-kb">Máximo (KB)</Label>
+                <Input
+                  id="profile-max-kb"
+                  type="number"
+                  min={1}
+                  value={draft.maxKB}
+                  onChange={(e) => updateDraft({ maxKB: Number(e.target.value) })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Formato</Label>
+                <Select value={draft.format} onValueChange={(format: OutputFormat) => updateDraft({ format })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(format => (
+                      <SelectItem key={format} value={format} disabled={!isFormatSupported(format)}>
+                        {OUTPUT_FORMATS[format].label}
+                        {!isFormatSupported(format) && ' (não suportado neste navegador)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>Enquadramento</Label>
+                <Select value={draft.fit} onValueChange={(fit: FitMode) => updateDraft({ fit })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FIT_MODE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {(draft.fit === 'contain' || draft.trim.enabled) && (
+                <div className="col-span-2 flex items-center gap-4">
+                  <Label htmlFor="profile-pad-color">Cor das margens</Label>
+                  <Input
+                    id="profile-pad-color"
+                    type="color"
+                    className="h-9 w-16 p-1"
+                    disabled={draft.padColor === 'transparent'}
+                    value={draft.padColor === 'transparent' ? '#ffffff' : draft.padColor}
+                    onChange={(e) => updateDraft({ padColor: e.target.value })}
+                  />
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="profile-pad-transparent"
+                      checked={draft.padColor === 'transparent'}
+                      onCheckedChange={(checked) => updateDraft({ padColor: checked ? 'transparent' : '#ffffff' })}
+                    />
+                    <Label htmlFor="profile-pad-transparent">Transparente</Label>
+                  </div>
+                </div>
+              )}
+              <div className="grid gap-2">
+                <Label>Reamostragem</Label>
+                <Select
+                  value={draft.resampleFilter}
+                  onValueChange={(resampleFilter: ResampleFilter) => updateDraft({ resampleFilter })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RESAMPLE_FILTER_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.resampleFilter !== 'browser' ? (
+                <div className="grid gap-2">
+                  <Label htmlFor="profile-sharpen">Nitidez após reduzir (0–{MAX_SHARPEN_AMOUNT})</Label>
+                  <Input
+                    id="profile-sharpen"
+                    type="number"
+                    min={0}
+                    max={MAX_SHARPEN_AMOUNT}
+                    step={0.1}
+                    value={draft.sharpenAmount}
+                    onChange={(e) => updateDraft({ sharpenAmount: Number(e.target.value) })}
+                  />
+                </div>
+              ) : <div />}
+              {draft.resampleFilter !== 'browser' && (
+                <div className="col-span-2 flex flex-wrap items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="profile-linear-light"
+                      checked={draft.linearLight}
+                      onCheckedChange={(checked) => updateDraft({ linearLight: checked === true })}
+                    />
+                    <Label htmlFor="profile-linear-light">Gama correta (luz linear)</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="profile-premultiply"
+                      checked={draft.premultiplyAlpha}
+                      onCheckedChange={(checked) => updateDraft({ premultiplyAlpha: checked === true })}
+                    />
+                    <Label htmlFor="profile-premultiply">Alfa pré-multiplicado</Label>
+                  </div>
+                </div>
+              )}
+              <div className="col-span-2 flex items-center gap-2">
+                <Checkbox
+                  id="profile-strict-budget"
+                  checked={draft.strictBudget}
+                  onCheckedChange={(checked) => updateDraft({ strictBudget: checked === true })}
+                />
+                <Label htmlFor="profile-strict-budget">
+                  Orçamento rígido: reduzir as dimensões se a qualidade mínima não couber no máximo
+                </Label>
+              </div>
+              {draft.strictBudget && (
+                <>
+                  <div className="grid gap-2">
+                    <Label htmlFor="profile-min-width">Largura mínima (px)</Label>
+                    <Input
+                      id="profile-min-width"
+                      type="number"
+                      min={1}
+                      value={draft.minWidth}
+                      onChange={(e) => updateDraft({ minWidth: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="profile-min-height">Altura mínima (px)</Label>
+                    <Input
+                      id="profile-min-height"
+                      type="number"
+                      min={1}
+                      value={draft.minHeight}
+                      onChange={(e) => updateDraft({ minHeight: Number(e.target.value) })}
+                    />
+                  </div>
+                </>
+              )}
+              <div className="col-span-2 grid gap-2 border-t border-border pt-4">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="profile-background-remove"
+                    checked={draft.background.remove}
+                    onCheckedChange={(checked) => updateBackground({ remove: checked === true })}
+                  />
+                  <Label htmlFor="profile-background-remove">
+                    Remover fundo uniforme: o fundo ligado às bordas vira transparente
+                  </Label>
+                </div>
+                {draft.background.remove && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="profile-background-tolerance">Tolerância da cor do fundo (%)</Label>
+                      <Input
+                        id="profile-background-tolerance"
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={draft.background.tolerance}
+                        onChange={(e) => updateBackground({ tolerance: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="profile-background-feather">Suavização da borda (px, até {MAX_FEATHER})</Label>
+                      <Input
+                        id="profile-background-feather"
+                        type="number"
+                        min={0}
+                        max={MAX_FEATHER}
+                        value={draft.background.feather}
+                        onChange={(e) => updateBackground({ feather: Number(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+                )}
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="profile-background-flatten"
+                      checked={draft.background.flatten}
+                      onCheckedChange={(checked) => updateBackground({ flatten: checked === true })}
+                    />
+                    <Label htmlFor="profile-background-flatten">Achatar a transparência sobre a cor</Label>
+                  </div>
+                  <Input
+                    type="color"
+                    className="h-9 w-16 p-1"
+                    aria-label="Cor de fundo"
+                    value={draft.background.flattenColor}
+                    onChange={(e) => updateBackground({ flattenColor: e.target.value })}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {!supportsAlpha(draft.format)
+                    ? `${getFormatLabel(draft.format)} não guarda transparência: o fundo é sempre achatado sobre esta cor.`
+                    : 'Sem achatar, as áreas transparentes são mantidas no arquivo.'}
+                </p>
+              </div>
+              <div className="col-span-2 grid gap-2 border-t border-border pt-4">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="profile-trim"
+                    checked={draft.trim.enabled}
+                    onCheckedChange={(checked) => updateTrim({ enabled: checked === true })}
+                  />
+                  <Label htmlFor="profile-trim">
+                    Corte automático: remover a borda uniforme e centralizar o produto com margem
+                  </Label>
+                </div>
+                {draft.trim.enabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="profile-trim-tolerance">Tolerância da cor da borda (%)</Label>
+                      <Input
+                        id="profile-trim-tolerance"
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={draft.trim.tolerance}
+                        onChange={(e) => updateTrim({ tolerance: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="profile-trim-margin">Margem de cada lado (%)</Label>
+                      <Input
+                        id="profile-trim-margin"
+                        type="number"
+                        min={0}
+                        max={MAX_TRIM_MARGIN_PERCENT}
+                        step={0.5}
+                        value={draft.trim.marginPercent}
+                        onChange={(e) => updateTrim({ marginPercent: Number(e.target.value) })}
+                      />
+                    </div>
+                    <p className="col-span-2 text-xs text-muted-foreground">
+                      O produto ocupará {getTrimFillPercent(draft.trim)}% do quadro pelo maior lado. A margem é
+                      preenchida com a cor das margens do perfil; imagens sem borda uniforme seguem o enquadramento.
+                    </p>
+                  </div>
+                )}
+              </div>
+              <div className="col-span-2 grid gap-2 border-t border-border pt-4">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="profile-compliance"
+                    checked={draft.compliance.enabled}
+                    onCheckedChange={(checked) => updateCompliance({ enabled: checked === true })}
+                  />
+                  <Label htmlFor="profile-compliance">
+                    Regras de marketplace: verificar cada imagem gerada e mostrar um relatório
+                  </Label>
+                </div>
+                {draft.compliance.enabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="profile-compliance-min-width">Largura mínima aceita (px)</Label>
+                      <Input
+                        id="profile-compliance-min-width"
+                        type="number"
+                        min={1}
+                        value={draft.compliance.minWidth}
+                        onChange={(e) => updateCompliance({ minWidth: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="profile-compliance-min-height">Altura mínima aceita (px)</Label>
+                      <Input
+                        id="profile-compliance-min-height"
+                        type="number"
+                        min={1}
+                        value={draft.compliance.minHeight}
+                        onChange={(e) => updateCompliance({ minHeight: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="profile-compliance-max-file">Arquivo máximo aceito (KB)</Label>
+                      <Input
+                        id="profile-compliance-max-file"
+                        type="number"
+                        min={1}
+                        value={draft.compliance.maxFileKB}
+                        onChange={(e) => updateCompliance({ maxFileKB: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="profile-compliance-fill">Produto ocupa ao menos (%)</Label>
+                      <Input
+                        id="profile-compliance-fill"
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={draft.compliance.minFillPercent}
+                        onChange={(e) => updateCompliance({ minFillPercent: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="col-span-2 flex flex-wrap items-center gap-4">
+                      <span className="text-sm">Formatos aceitos:</span>
+                      {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(format => (
+                        <div key={format} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`profile-compliance-${format}`}
+                            checked={draft.compliance.allowedFormats.includes(format)}
+                            onCheckedChange={(checked) => toggleAllowedFormat(format, checked === true)}
+                          />
+                          <Label htmlFor={`profile-compliance-${format}`}>{OUTPUT_FORMATS[format].label}</Label>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="col-span-2 flex items-center gap-2">
+                      <Checkbox
+                        id="profile-compliance-white"
+                        checked={draft.compliance.whiteBackground}
+                        onCheckedChange={(checked) => updateCompliance({ whiteBackground: checked === true })}
+                      />
+                      <Label htmlFor="profile-compliance-white">Exigir fundo branco puro</Label>
+                    </div>
+                    <p className="col-span-2 text-xs text-muted-foreground">
+                      Use o enquadramento "{FIT_MODE_LABELS.contain}" com margens brancas para que a conversão
+                      já entregue o fundo e as dimensões pedidos pela loja.
+                    </p>
+                  </div>
+                )}
+              </div>
+              <div className="col-span-2 grid gap-2 border-t border-border pt-4">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="profile-responsive"
+                    checked={draft.responsive.enabled}
+                    onCheckedChange={(checked) => updateResponsive({ enabled: checked === true })}
+                  />
+                  <Label htmlFor="profile-responsive">
+                    Exportação responsiva: várias larguras (e formatos) num só job, com código srcset
+                  </Label>
+                </div>
+                {draft.responsive.enabled && (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      A altura de cada largura segue a proporção {draft.width}×{draft.height}. Cada variante
+                      tem o próprio teto em KB.
+                    </p>
+                    {draft.responsive.widths.map((entry, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          className="h-8 w-28"
+                          aria-label="Largura (px)"
+                          value={entry.width}
+                          onChange={(e) => updateResponsiveWidth(index, { width: Number(e.target.value) })}
+                        />
+                        <span className="text-xs text-muted-foreground">px · até</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          className="h-8 w-24"
+                          aria-label="Máximo (KB)"
+                          value={entry.maxKB}
+                          onChange={(e) => updateResponsiveWidth(index, { maxKB: Number(e.target.value) })}
+                        />
+                        <span className="text-xs text-muted-foreground">KB</span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Remover largura"
+                          onClick={() => updateResponsive({
+                            widths: draft.responsive.widths.filter((_, i) => i !== index)
+                          })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <div>
+                      <Button size="sm" variant="outline" onClick={addResponsiveWidth}>
+                        <Plus className="w-4 h-4" />
+                        Adicionar largura
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4">
+                      <span className="text-sm">Formatos:</span>
+                      {RESPONSIVE_FORMAT_ORDER.map(format => (
+                        <div key={format} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`profile-responsive-${format}`}
+                            checked={draft.responsive.formats.includes(format)}
+                            disabled={!isFormatSupported(format)}
+                            onCheckedChange={(checked) => toggleResponsiveFormat(format, checked === true)}
+                          />
+                          <Label htmlFor={`profile-responsive-${format}`}>{OUTPUT_FORMATS[format].label}</Label>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+              <div className="col-span-2 grid gap-2 border-t border-border pt-4">
+                <Label>Metadados incorporados</Label>
+                <p className="text-xs text-muted-foreground">
+                  Gravados como EXIF/XMP em cada arquivo. Use {'{year}'} para o ano atual.
+                  {!supportsMetadataEmbedding(draft.format) && ` Não disponível para ${getFormatLabel(draft.format)}.`}
+                </p>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="profile-meta-author">Autor</Label>
+                <Input
+                  id="profile-meta-author"
+                  value={draft.metadata.author}
+                  onChange={(e) => updateMetadata({ author: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="profile-meta-copyright">Copyright</Label>
+                <Input
+                  id="profile-meta-copyright"
+                  placeholder="© {year} Estúdio"
+                  value={draft.metadata.copyright}
+                  onChange={(e) => updateMetadata({ copyright: e.target.value })}
+                />
+              </div>
+              <div className="col-span-2 grid gap-2">
+                <Label htmlFor="profile-meta-source">URL de origem</Label>
+                <Input
+                  id="profile-meta-source"
+                  type="url"
+                  placeholder="https://"
+                  value={draft.metadata.sourceUrl}
+                  onChange={(e) => updateMetadata({ sourceUrl: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+
+          {draftError && (
+            <p className="text-sm text-destructive">{draftError}</p>
+          )}
+
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setDraft(null)}>
+              Cancelar
+            </Button>
+            <Button className="bg-gradient-primary hover:opacity-90" onClick={handleSave}>
+              Salvar Perfil
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ProfileSelector;
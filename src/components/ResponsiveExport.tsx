@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { getFormatLabel } from '@/utils/formats';
+import { generateImageURL } from '@/utils/indexeddb';
+import { buildResponsiveSnippet, type ResponsiveFile } from '@/utils/responsive';
+
+interface ResponsiveExportProps {
+  files: ResponsiveFile[];
+  // Used as the default alt text
+  originalName: string;
+  // Width the image is displayed at, for the sizes attribute
+  displayWidth: number;
+}
+
+const ResponsiveExport: React.FC<ResponsiveExportProps> = ({ files, originalName, displayWidth }) => {
+  const [baseUrl, setBaseUrl] = useState('');
+  const [alt, setAlt] = useState(() => originalName.replace(/\.[^/.]+$/, ''));
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const snippet = useMemo(
+    () => buildResponsiveSnippet(files, { baseUrl: baseUrl.trim(), alt, displayWidth }),
+    [files, baseUrl, alt, displayWidth]
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopyStatus('copied');
+    } catch (err) {
+      console.error('Failed to copy the snippet: ', err);
+      setCopyStatus('failed');
+    }
+    setTimeout(() => setCopyStatus('idle'), 2000);
+  };
+
+  const downloadFile = (file: ResponsiveFile) => {
+    const link = document.createElement('a');
+    link.href = generateImageURL(file.filename);
+    link.download = file.filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  // Spaced out so the browser does not drop simultaneous downloads
+  const downloadAll = () => {
+    files.forEach((file, index) => setTimeout(() => downloadFile(file), index * 150));
+  };
+
+  return (
+    <div className="w-full max-w-4xl bg-card rounded-xl p-4 shadow-card border border-border flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold gradient-text">
+          Exportação responsiva — {files.length} {files.length === 1 ? 'variante' : 'variantes'}
+        </h3>
+        <Button size="sm" onClick={downloadAll} className="bg-gradient-primary hover:opacity-90">
+          <Download className="w-4 h-4" />
+          Baixar todas
+        </Button>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="font-medium py-1">Arquivo</th>
+            <th className="font-medium py-1">Formato</th>
+            <th className="font-medium py-1">Dimensões</th>
+            <th className="font-medium py-1">Tamanho</th>
+            <th className="font-medium py-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {files.map(file => (
+            <tr key={file.filename} className="border-t border-border">
+              <td className="py-1 font-mono text-xs truncate max-w-[16rem]" title={file.filename}>{file.filename}</td>
+              <td className="py-1">{getFormatLabel(file.format)}</td>
+              <td className="py-1">{file.width}×{file.height}</td>
+              <td className={`py-1 ${file.withinBudget ? '' : 'text-destructive'}`}>
+                <span className="inline-flex items-center gap-1" title={`Teto de ${file.maxKB} KB · qualidade ${Math.round(file.quality * 100)}%`}>
+                  {!file.withinBudget && <AlertTriangle className="w-3 h-3" />}
+                  {(file.size / 1024).toFixed(1)} / {file.maxKB} KB
+                </span>
+              </td>
+              <td className="py-1 text-right">
+                <Button size="sm" variant="ghost" onClick={() => downloadFile(file)} title={`Baixar ${file.filename}`}>
+                  <Download className="w-4 h-4" />
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="responsive-base-url">Caminho das imagens no site</Label>
+          <Input
+            id="responsive-base-url"
+            placeholder="https://cdn.exemplo.com/produtos/"
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="responsive-alt">Texto alternativo (alt)</Label>
+          <Input id="responsive-alt" value={alt} onChange={(e) => setAlt(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="grid gap-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="responsive-snippet">
+            {snippet.startsWith('<picture>') ? 'Código <picture>' : 'Código <img srcset>'}
+          </Label>
+          <Button size="sm" variant="secondary" onClick={handleCopy} disabled={copyStatus !== 'idle'}>
+            {copyStatus === 'copied' ? 'Copiado!' : copyStatus === 'failed' ? 'Falhou!' : 'Copiar código'}
+          </Button>
+        </div>
+        <Textarea
+          id="responsive-snippet"
+          readOnly
+          value={snippet}
+          rows={Math.min(12, snippet.split('\n').length + 1)}
+          className="font-mono text-xs"
+          onFocus={(e) => e.target.select()}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ResponsiveExport;
@@ -0,0 +1,83 @@
+import * as React from "react"
+
+import {
+  DEFAULT_PROFILE,
+  isBuiltInProfile,
+  loadActiveProfileId,
+  loadProfiles,
+  saveActiveProfileId,
+  saveProfiles,
+  type EncodingProfile,
+} from "@/utils/profiles"
+
+interface ProfilesState {
+  profiles: EncodingProfile[]
+  activeProfileId: string
+}
+
+// Shared store so individual mode, batch mode and the selector stay in sync
+let state: ProfilesState = {
+  profiles: loadProfiles(),
+  activeProfileId: loadActiveProfileId(),
+}
+
+const listeners = new Set<() => void>()
+
+function setState(next: ProfilesState) {
+  state = next
+  listeners.forEach((listener) => listener())
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function setActiveProfile(id: string) {
+  saveActiveProfileId(id)
+  setState({ ...state, activeProfileId: id })
+}
+
+function upsertProfile(profile: EncodingProfile) {
+  if (isBuiltInProfile(profile.id)) return
+
+  const exists = state.profiles.some((p) => p.id === profile.id)
+  const profiles = exists
+    ? state.profiles.map((p) => (p.id === profile.id ? profile : p))
+    : [...state.profiles, profile]
+
+  saveProfiles(profiles)
+  setState({ ...state, profiles })
+}
+
+function deleteProfile(id: string) {
+  if (isBuiltInProfile(id)) return
+
+  const profiles = state.profiles.filter((p) => p.id !== id)
+  saveProfiles(profiles)
+
+  const activeProfileId =
+    state.activeProfileId === id ? DEFAULT_PROFILE.id : state.activeProfileId
+  saveActiveProfileId(activeProfileId)
+  setState({ profiles, activeProfileId })
+}
+
+export function useEncodingProfiles() {
+  const { profiles, activeProfileId } = React.useSyncExternalStore(
+    subscribe,
+    () => state
+  )
+
+  const activeProfile =
+    profiles.find((p) => p.id === activeProfileId) ?? DEFAULT_PROFILE
+
+  return {
+    profiles,
+    activeProfile,
+    setActiveProfile,
+    upsertProfile,
+    deleteProfile,
+  }
+}
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import Dropzone from '@/components/Dropzone';
@@ -7,155 +7,41 @@ import ImageCropper from '@/components/ImageCropper';
 import Spinner from '@/components/Spinner';
 import ModeSelector from '@/components/ModeSelector';
 import BatchMode from '@/components/BatchMode';
-import { saveImageToDB, generateImageURL, cleanupOldImages } from '@/utils/indexeddb';
+import ExportSetMode from '@/components/ExportSetMode';
+import FramePicker from '@/components/FramePicker';
+import ProfileSelector from '@/components/ProfileSelector';
+import { useEncodingProfiles } from '@/hooks/use-encoding-profiles';
+import ResponsiveExport from '@/components/ResponsiveExport';
+import { describeProfile, getResponsiveHeight, type BackgroundOptions, type EncodingProfile } from '@/utils/profiles';
+import { METADATA_HEADER_BYTES, readImageMetadata, type ImageMetadata } from '@/utils/metadata';
+import { isAnimatedImage } from '@/utils/frameSource';
+import { toImageInput } from '@/utils/svg';
+import { identifyFile, type DetectedFormat } from '@/utils/fileSniffing';
+import { saveImageToDB, saveImageGroupToDB, generateImageURL, cleanupOldImages } from '@/utils/indexeddb';
+import { nameResponsiveFiles, orderSnippetFormats, type ResponsiveFile } from '@/utils/responsive';
+import { evaluateCompliance } from '@/utils/compliance';
 import { registerServiceWorker, isServiceWorkerActive } from '@/utils/serviceWorkerManager';
-
-type AppMode = 'select' | 'individual' | 'batch';
-type AppStep = 'idle' | 'converting' | 'finished' | 'cropping';
-
-// Web Worker code for image processing
-const imageWorkerCode = `
-const blobToDataUrl = (blob) => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve(reader.result);
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-    });
-};
-
-const generateOptimizedWebP = async (canvas) => {
-    const TARGET_MIN_BYTES = 30 * 1024; // 30KB
-    const TARGET_MAX_BYTES = 50 * 1024; // 50KB
-    const ITERATIONS = 15;
-
-    const getWebpBlob = (quality) => canvas.convertToBlob({ type: 'image/webp', quality });
-
-    // Teste inicial com qualidade muito alta para verificar se a imagem é pequena
-    let testBlob = await getWebpBlob(0.98);
-    
-    // Se mesmo com qualidade alta está abaixo de 30KB, retorna com qualidade máxima
-    if (testBlob.size < TARGET_MIN_BYTES) {
-        return { blob: testBlob, size: testBlob.size };
-    }
-
-    // Se está acima de 50KB mesmo com qualidade baixa, precisa otimizar mais
-    let lowQualityTest = await getWebpBlob(0.5);
-    if (lowQualityTest.size > TARGET_MAX_BYTES) {
-        // Busca uma qualidade ainda menor
-        let minQuality = 0.1;
-        let maxQuality = 0.5;
-        
-        for (let i = 0; i < ITERATIONS; i++) {
-            const currentQuality = (minQuality + maxQuality) / 2;
-            const blob = await getWebpBlob(currentQuality);
-            
-            if (blob.size <= TARGET_MAX_BYTES) {
-                return { blob, size: blob.size };
-            }
-            maxQuality = currentQuality;
-        }
-    }
-
-    // Busca binária normal entre 0.5 e 0.98
-    let minQuality = 0.5;
-    let maxQuality = 0.98;
-    let bestBlob = testBlob;
-    let closestToTarget = Math.abs(testBlob.size - ((TARGET_MIN_BYTES + TARGET_MAX_BYTES) / 2));
-
-    for (let i = 0; i < ITERATIONS; i++) {
-        const currentQuality = (minQuality + maxQuality) / 2;
-        const blob = await getWebpBlob(currentQuality);
-        const distanceToTarget = Math.abs(blob.size - ((TARGET_MIN_BYTES + TARGET_MAX_BYTES) / 2));
-        
-        // Se está no range perfeito, retorna imediatamente
-        if (blob.size >= TARGET_MIN_BYTES && blob.size <= TARGET_MAX_BYTES) {
-            if (distanceToTarget < closestToTarget) {
-                bestBlob = blob;
-                closestToTarget = distanceToTarget;
-            }
-        }
-        
-        if (blob.size > TARGET_MAX_BYTES) {
-            maxQuality = currentQuality;
-        } else {
-            minQuality = currentQuality;
-            // Sempre manter o melhor blob encontrado
-            if (distanceToTarget < closestToTarget || blob.size >= TARGET_MIN_BYTES) {
-                bestBlob = blob;
-                closestToTarget = distanceToTarget;
-            }
-        }
-    }
-    
-    if (!bestBlob) {
-        throw new Error("Falha ao gerar o blob da imagem.");
-    }
-
-    return { blob: bestBlob, size: bestBlob.size };
-};
-
-self.onmessage = async (event) => {
-    const { type, imageDataUrl, width: targetWidth, height: targetHeight } = event.data;
-
-    // Health check response
-    if (type === 'HEALTH_CHECK') {
-        self.postMessage({ status: 'health' });
-        return;
-    }
-
-    try {
-        const response = await fetch(imageDataUrl);
-        const blob = await response.blob();
-        const imageBitmap = await createImageBitmap(blob);
-        
-        // Use provided dimensions or default to 1000x1000
-        const canvasWidth = targetWidth || 1000;
-        const canvasHeight = targetHeight || 1000;
-        const canvas = new OffscreenCanvas(canvasWidth, canvasHeight);
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
-        }
-
-        // Use high-quality image smoothing
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = 'high';
-
-        const { width: imgWidth, height: imgHeight } = imageBitmap;
-
-        if (type === 'CONVERT') {
-            const canvasAspectRatio = 1;
-            const imgAspectRatio = imgWidth / imgHeight;
-            let sx = 0, sy = 0, sWidth = imgWidth, sHeight = imgHeight;
-
-            if (imgAspectRatio > canvasAspectRatio) {
-                sWidth = imgHeight * canvasAspectRatio;
-                sx = (imgWidth - sWidth) / 2;
-            } else if (imgAspectRatio < canvasAspectRatio) {
-                sHeight = imgWidth / canvasAspectRatio;
-                sy = (imgHeight - sHeight) / 2;
-            }
-            
-            ctx.drawImage(imageBitmap, sx, sy, sWidth, sHeight, 0, 0, canvasWidth, canvasHeight);
-        } else {
-            ctx.drawImage(imageBitmap, 0, 0, canvasWidth, canvasHeight);
-        }
-
-        imageBitmap.close();
-
-        const result = await generateOptimizedWebP(canvas);
-        
-        self.postMessage({ status: 'success', ...result });
-
-    } catch (error) {
-        self.postMessage({ 
-            status: 'error', 
-            message: error instanceof Error ? error.message : 'Um erro desconhecido ocorreu no worker.' 
-        });
-    }
+import {
+  createImageWorkerPool,
+  loadWorkerCountOverride,
+  ConversionCancelledError,
+  type ConversionDetails,
+  type ConversionResult,
+  type CropRect,
+  type ImageWorkerPool,
+  type ResponsiveResult,
+  type WorkerFailureReason
+} from '@/utils/imageWorkerPool';
+
+type AppMode = 'select' | 'individual' | 'batch' | 'sets';
+type AppStep = 'idle' | 'picking' | 'converting' | 'finished' | 'cropping';
+
+const WORKER_RESTART_REASONS: Record<WorkerFailureReason, string> = {
+  timeout: 'Uma conversão excedeu o tempo limite.',
+  crashed: 'O worker encontrou um erro fatal.',
+  unresponsive: 'O worker parou de responder.',
+  terminated: 'O worker foi encerrado.'
 };
-`;
 
 const Index: React.FC = () => {
   const [mode, setMode] = useState<AppMode>('select');
@@ -163,13 +49,42 @@ const Index: React.FC = () => {
   const [convertedImageUrl, setConvertedImageUrl] = useState<string | null>(null);
   const [convertedFileName, setConvertedFileName] = useState<string | null>(null);
   const [convertedSize, setConvertedSize] = useState<number | null>(null);
+  const [convertedMimeType, setConvertedMimeType] = useState<string | null>(null);
+  const [convertedCrop, setConvertedCrop] = useState<CropRect | null>(null);
+  const [convertedDetails, setConvertedDetails] = useState<ConversionDetails | null>(null);
+  // Profile the shown result was made with; switching profiles afterwards does not change its rules
+  const [convertedProfile, setConvertedProfile] = useState<EncodingProfile | null>(null);
+  const [originalMetadata, setOriginalMetadata] = useState<ImageMetadata | null>(null);
+  // Format detected from the file contents, which may differ from file.type
+  const [originalFormat, setOriginalFormat] = useState<DetectedFormat | null>(null);
+  const [originalName, setOriginalName] = useState<string>('');
+  // Every variant of a responsive export; the preview shows the largest fallback one
+  const [responsiveFiles, setResponsiveFiles] = useState<ResponsiveFile[] | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState<boolean>(false);
   const [step, setStep] = useState<AppStep>('idle');
-  const workerRef = useRef<Worker | null>(null);
+  // Video or animated image waiting for frames to be picked
+  const [pickingFile, setPickingFile] = useState<File | null>(null);
+  // Frames picked in individual mode that continue in batch mode
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const workerPoolRef = useRef<ImageWorkerPool | null>(null);
+  const conversionControllerRef = useRef<AbortController | null>(null);
+  const { activeProfile } = useEncodingProfiles();
   const { toast } = useToast();
 
-  // Initialize Service Worker and Web Worker with double checks
+  // Marketplace presets validate the shown result against the rules it was made with
+  const complianceReport = useMemo(() => {
+    if (!convertedProfile?.compliance.enabled || !convertedDetails || convertedSize === null || !convertedMimeType) {
+      return null;
+    }
+    return evaluateCompliance(convertedProfile.compliance, {
+      details: convertedDetails,
+      size: convertedSize,
+      mimeType: convertedMimeType
+    });
+  }, [convertedProfile, convertedDetails, convertedSize, convertedMimeType]);
+
+  // Initialize Service Worker and the shared image worker pool
   useEffect(() => {
     const init = async () => {
       // Register Service Worker
@@ -194,124 +109,220 @@ const Index: React.FC = () => {
 
     init();
 
-    // Initialize Web Worker with double checks
-    const createWorker = () => {
-      const workerBlob = new Blob([imageWorkerCode], { type: 'application/javascript' });
-      const workerUrl = URL.createObjectURL(workerBlob);
-      const worker = new Worker(workerUrl);
-      
-      // Double check: verify worker is responsive
-      const healthCheck = () => {
-        if (!workerRef.current) return;
-        workerRef.current.postMessage({ type: 'HEALTH_CHECK' });
-      };
-      
-      worker.onerror = (error) => {
-        console.error('Worker error:', error);
-        setTimeout(() => {
-          if (workerRef.current) {
-            workerRef.current.terminate();
-            workerRef.current = createWorker();
-          }
-        }, 1000);
-      };
-      
-      // Health check every 30 seconds
-      const healthInterval = setInterval(healthCheck, 30000);
-      
-      worker.onmessage = (event: MessageEvent<{status: 'success' | 'error' | 'health', blob?: Blob, size?: number, message?: string}>) => {
-        const { status, blob, size, message } = event.data;
-        
-        if (status === 'health') {
-          return; // Health check response
-        }
-        
-        if (status === 'success' && blob && size !== undefined) {
-          // Save to IndexedDB and generate URL
-          saveImageToDB(blob).then(filename => {
-            const imageUrl = generateImageURL(filename);
-            setConvertedImageUrl(imageUrl);
-            setConvertedFileName(filename);
-            setConvertedSize(size);
-            setStep('finished');
-            
-            toast({
-              title: "✨ Sucesso!",
-              description: `Imagem convertida: ${filename} (${(size / 1024).toFixed(1)} KB)`
-            });
-          }).catch(err => {
-            console.error('Erro ao salvar imagem:', err);
-            setError('Erro ao salvar a imagem processada.');
-            setStep('idle');
-          });
-        } else {
-          setError(message || 'Falha ao processar a imagem.');
-          setStep('idle');
-          toast({
-            title: "Erro",
-            description: message || 'Falha ao processar a imagem.',
-            variant: "destructive"
-          });
-        }
-      };
-      
-      return worker;
-    };
-    
-    workerRef.current = createWorker();
+    workerPoolRef.current = createImageWorkerPool({
+      size: loadWorkerCountOverride() ?? undefined,
+      onEvent: (event) => {
+        if (event.type !== 'restarted') return;
 
+        console.warn(`Worker reiniciado (${event.reason})`);
+        const details = [
+          event.requeued > 0 && `${event.requeued} conversão(ões) retomada(s)`,
+          event.rejected > 0 && `${event.rejected} conversão(ões) falharam`
+        ].filter(Boolean).join(', ');
+
+        toast({
+          title: "Processador de imagens reiniciado",
+          description: `${WORKER_RESTART_REASONS[event.reason]}${details ? ` ${details}.` : ''}`,
+          variant: event.rejected > 0 ? "destructive" : "default"
+        });
+      }
+    });
 
     return () => {
-      if (workerRef.current) {
-        workerRef.current.terminate();
-        workerRef.current = null;
+      if (workerPoolRef.current) {
+        workerPoolRef.current.terminate();
+        workerPoolRef.current = null;
       }
     };
   }, [toast]);
 
-  const convertImage = useCallback((imageDataUrl: string) => {
-    if (!workerRef.current) {
+  const handleConversionError = useCallback((err: unknown) => {
+    if (err instanceof ConversionCancelledError) {
+      return; // State was already restored by handleCancelConversion
+    }
+    const message = err instanceof Error ? err.message : 'Falha ao processar a imagem.';
+    setError(message);
+    setStep('idle');
+    toast({
+      title: "Erro",
+      description: message,
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const handleConversionResult = useCallback(async (job: Promise<ConversionResult>, profile: EncodingProfile) => {
+    try {
+      const { blob, size, crop, ...details } = await job;
+
+      try {
+        // Save to IndexedDB and generate URL
+        const filename = await saveImageToDB(blob);
+        setConvertedImageUrl(generateImageURL(filename));
+        setConvertedFileName(filename);
+        setConvertedSize(size);
+        setConvertedMimeType(blob.type);
+        setConvertedDetails(details);
+        setConvertedProfile(profile);
+        setResponsiveFiles(null);
+        // A re-crop result carries no crop of its own; keep the one the user started from
+        if (crop) setConvertedCrop(crop);
+        setStep('finished');
+
+        toast({
+          title: "✨ Sucesso!",
+          description: `Imagem convertida: ${filename} (${(size / 1024).toFixed(1)} KB)`
+        });
+      } catch (err) {
+        console.error('Erro ao salvar imagem:', err);
+        setError('Erro ao salvar a imagem processada.');
+        setStep('idle');
+      }
+    } catch (err) {
+      handleConversionError(err);
+    }
+  }, [toast, handleConversionError]);
+
+  // Responsive exports are stored as one IndexedDB group
+  const handleResponsiveResult = useCallback(async (job: Promise<ResponsiveResult>, name: string, profile: EncodingProfile) => {
+    try {
+      const { variants, crop } = await job;
+      const files = nameResponsiveFiles(variants, name);
+
+      try {
+        await saveImageGroupToDB(files.map(({ blob, filename }) => ({ blob, filename })), name);
+        const { fallback } = orderSnippetFormats(files.map(file => file.format));
+        const preview = files.find(file => file.format === fallback) ?? files[0];
+        const { blob, size, filename, ...details } = preview;
+        setConvertedImageUrl(generateImageURL(filename));
+        setConvertedFileName(filename);
+        setConvertedSize(size);
+        setConvertedMimeType(blob.type);
+        setConvertedDetails(details);
+        setConvertedProfile(profile);
+        setResponsiveFiles(files);
+        if (crop) setConvertedCrop(crop);
+        setStep('finished');
+
+        const outOfBudget = files.filter(file => !file.withinBudget).length;
+        toast({
+          title: "✨ Sucesso!",
+          description: `${files.length} variantes geradas` +
+            (outOfBudget > 0 ? `, ${outOfBudget} acima do teto em KB` : '')
+        });
+      } catch (err) {
+        console.error('Erro ao salvar imagens:', err);
+        setError('Erro ao salvar as imagens processadas.');
+        setStep('idle');
+      }
+    } catch (err) {
+      handleConversionError(err);
+    }
+  }, [toast, handleConversionError]);
+
+  // The original is shown from an object URL; release it once it is replaced
+  useEffect(() => {
+    return () => {
+      if (originalImage) URL.revokeObjectURL(originalImage);
+    };
+  }, [originalImage]);
+
+  // Each conversion gets its own controller so it can be cancelled from the UI
+  const createConversionSignal = useCallback(() => {
+    conversionControllerRef.current?.abort();
+    conversionControllerRef.current = new AbortController();
+    return conversionControllerRef.current.signal;
+  }, []);
+
+  const convertImage = useCallback((file: File, format?: DetectedFormat) => {
+    if (!workerPoolRef.current) {
       setError('Worker não está disponível.');
       return;
     }
     
     setStep('converting');
     setError(null);
-    setOriginalImage(imageDataUrl);
-    workerRef.current.postMessage({ type: 'CONVERT', imageDataUrl });
-  }, []);
-
-  const handleFileDrop = useCallback((file: File) => {
-    if (!file.type.startsWith('image/')) {
-      setError('O arquivo não é uma imagem. Por favor, solte um arquivo de imagem válido.');
+    setOriginalFormat(format ?? null);
+    setOriginalName(file.name);
+    setOriginalImage(URL.createObjectURL(file));
+    // Only the header: loading a large photo whole would block the main thread
+    file.slice(0, METADATA_HEADER_BYTES).arrayBuffer()
+      .then(buffer => setOriginalMetadata(readImageMetadata(buffer)))
+      .catch(err => console.warn('Não foi possível ler os metadados:', err));
+    const pool = workerPoolRef.current;
+    const signal = createConversionSignal();
+
+    if (activeProfile.responsive.enabled) {
+      // SVGs are rasterized for the largest variant
+      const largest = Math.max(...activeProfile.responsive.widths.map(({ width }) => width));
+      handleResponsiveResult(
+        toImageInput(file, largest, getResponsiveHeight(activeProfile, largest))
+          .then(input => pool.exportResponsive(input, { profile: activeProfile, signal })),
+        file.name,
+        activeProfile
+      );
+      return;
+    }
+    handleConversionResult(
+      toImageInput(file, activeProfile.width, activeProfile.height)
+        .then(input => pool.convert(input, { profile: activeProfile, signal })),
+      activeProfile
+    );
+  }, [handleConversionResult, handleResponsiveResult, createConversionSignal, activeProfile]);
+
+  const handleFileDrop = useCallback(async (droppedFile: File) => {
+    // Trust the file header rather than file.type, which is often empty or wrong
+    let identified;
+    try {
+      identified = await identifyFile(droppedFile);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'O arquivo não é uma imagem nem um vídeo válido.';
+      setError(message);
       toast({
         title: "Erro",
-        description: "O arquivo não é uma imagem válida.",
+        description: message,
         variant: "destructive"
       });
       return;
     }
+    const { file, format } = identified;
     
     handleReset();
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      if (typeof event.target?.result === 'string') {
-        convertImage(event.target.result);
-      } else {
-        setError('Falha ao ler o arquivo.');
-      }
-    };
-    reader.onerror = () => setError('Ocorreu um erro ao ler o arquivo.');
-    reader.readAsDataURL(file);
+
+    // Videos and animated images open the frame picker instead of collapsing to frame 0
+    if (format.kind === 'video' || await isAnimatedImage(file)) {
+      setOriginalFormat(format);
+      setPickingFile(file);
+      setStep('picking');
+      return;
+    }
+    convertImage(file, format);
+  }, [convertImage, toast]);
+
+  const handleFramesPicked = useCallback((frames: File[]) => {
+    setPickingFile(null);
+    if (frames.length === 1) {
+      convertImage(frames[0]);
+      return;
+    }
+    setStep('idle');
+    setBatchFiles(frames);
+    setMode('batch');
   }, [convertImage]);
 
+  const handleConvertWholeAnimation = useCallback(() => {
+    if (!pickingFile) return;
+    setPickingFile(null);
+    convertImage(pickingFile, originalFormat ?? undefined);
+  }, [pickingFile, originalFormat, convertImage]);
+
   // Handle paste events
   useEffect(() => {
     const handlePaste = (event: ClipboardEvent) => {
       if (step !== 'idle' || !event.clipboardData) return;
       
+      // Pasted files may come without a MIME type; handleFileDrop sniffs the contents
       for (const item of Array.from(event.clipboardData.items)) {
-        if (item.type.startsWith('image/')) {
+        if (item.kind === 'file') {
           const file = item.getAsFile();
           if (file) {
             event.preventDefault();
@@ -331,6 +342,15 @@ const Index: React.FC = () => {
     setConvertedImageUrl(null);
     setConvertedFileName(null);
     setConvertedSize(null);
+    setConvertedMimeType(null);
+    setConvertedCrop(null);
+    setConvertedDetails(null);
+    setConvertedProfile(null);
+    setOriginalMetadata(null);
+    setOriginalFormat(null);
+    setOriginalName('');
+    setResponsiveFiles(null);
+    setPickingFile(null);
     setError(null);
     setStep('idle');
   };
@@ -341,41 +361,50 @@ const Index: React.FC = () => {
     }
   };
 
-  const handleSaveCrop = async (croppedCanvas: HTMLCanvasElement, forceSquare: boolean) => {
+  const handleSaveCrop = async (croppedImage: ImageBitmap, forceSquare: boolean, background: BackgroundOptions) => {
     setStep('converting');
-    
-    const finalCanvas = document.createElement('canvas');
-    
-    if (forceSquare) {
-      // Force to 1000x1000 square
-      finalCanvas.width = 1000;
-      finalCanvas.height = 1000;
-    } else {
-      // Keep the cropped dimensions
-      finalCanvas.width = croppedCanvas.width;
-      finalCanvas.height = croppedCanvas.height;
-    }
-    
-    const ctx = finalCanvas.getContext('2d');
-    if (!ctx) {
-      setError('Não foi possível obter o contexto do canvas para redimensionar.');
+
+    if (!workerPoolRef.current) {
+      croppedImage.close();
+      setError('Worker não está disponível.');
       setStep('finished');
       return;
     }
-    
-    if (forceSquare) {
-      ctx.drawImage(croppedCanvas, 0, 0, 1000, 1000);
+
+    // Background settings chosen in the editor apply to this image only
+    const profile = { ...activeProfile, background };
+
+    if (activeProfile.responsive.enabled) {
+      // Every variant keeps the crop's proportions (or 1:1)
+      await handleResponsiveResult(workerPoolRef.current.exportResponsive(croppedImage, {
+        profile,
+        aspectRatio: forceSquare ? 1 : croppedImage.width / croppedImage.height,
+        signal: createConversionSignal()
+      }), originalName, profile);
+      return;
+    }
+
+    // Force a square that fits the profile or keep the cropped dimensions; the worker does the resize
+    const squareSize = Math.min(activeProfile.width, activeProfile.height);
+    await handleConversionResult(workerPoolRef.current.convert(croppedImage, {
+      type: 'OPTIMIZE_CROPPED',
+      profile,
+      width: forceSquare ? squareSize : croppedImage.width,
+      height: forceSquare ? squareSize : croppedImage.height,
+      signal: createConversionSignal()
+    }), profile);
+  };
+
+  const handleCancelConversion = () => {
+    conversionControllerRef.current?.abort();
+    conversionControllerRef.current = null;
+
+    // A cancelled re-crop keeps the previous result; a first conversion starts over
+    if (convertedImageUrl) {
+      setStep('finished');
     } else {
-      ctx.drawImage(croppedCanvas, 0, 0, finalCanvas.width, finalCanvas.height);
+      handleReset();
     }
-    
-    const imageDataUrl = finalCanvas.toDataURL();
-    workerRef.current?.postMessage({ 
-      type: 'OPTIMIZE_CROPPED', 
-      imageDataUrl,
-      width: finalCanvas.width,
-      height: finalCanvas.height
-    });
   };
 
   const handleFinishedDragEvents = {
@@ -412,7 +441,21 @@ const Index: React.FC = () => {
 
     // Batch mode
     if (mode === 'batch') {
-      return <BatchMode onBack={() => setMode('select')} workerRef={workerRef} />;
+      return (
+        <BatchMode
+          onBack={() => {
+            setBatchFiles([]);
+            setMode('select');
+          }}
+          workerPoolRef={workerPoolRef}
+          initialFiles={batchFiles}
+        />
+      );
+    }
+
+    // Export set mode
+    if (mode === 'sets') {
+      return <ExportSetMode onBack={() => setMode('select')} workerPoolRef={workerPoolRef} />;
     }
 
     // Individual mode
@@ -424,6 +467,7 @@ const Index: React.FC = () => {
               <Button onClick={() => setMode('select')} variant="outline">
                 ← Voltar
               </Button>
+              <ProfileSelector />
             </div>
             
             <div className="text-center mb-8">
@@ -431,7 +475,7 @@ const Index: React.FC = () => {
                 Modo Individual
               </h1>
               <p className="text-xl text-muted-foreground max-w-2xl">
-                Converta suas imagens para WebP 1000x1000 com qualidade otimizada e 
+                Converta suas imagens para {describeProfile(activeProfile)} com qualidade otimizada e 
                 <span className="text-primary font-semibold"> NUNCA perca o nome do arquivo</span> ao arrastar!
               </p>
             </div>
@@ -452,6 +496,20 @@ const Index: React.FC = () => {
           </div>
         );
 
+      case 'picking':
+        return pickingFile && originalFormat ? (
+          <FramePicker
+            file={pickingFile}
+            format={originalFormat}
+            onPick={handleFramesPicked}
+            // Only GIFs with a WebP profile are converted as an animation
+            onUseWhole={originalFormat.mimeType === 'image/gif' && activeProfile.format === 'image/webp'
+              ? handleConvertWholeAnimation
+              : undefined}
+            onCancel={handleReset}
+          />
+        ) : null;
+
       case 'converting':
         return (
           <div className="flex flex-col items-center justify-center min-h-[60vh] gap-8">
@@ -466,6 +524,9 @@ const Index: React.FC = () => {
                 Otimizando qualidade e preparando para nunca perder o nome do arquivo
               </p>
             </div>
+            <Button onClick={handleCancelConversion} variant="outline">
+              ✖ Cancelar
+            </Button>
           </div>
         );
 
@@ -475,6 +536,8 @@ const Index: React.FC = () => {
             imageSrc={originalImage}
             onSave={handleSaveCrop}
             onCancel={() => setStep('finished')}
+            initialCrop={convertedCrop ?? undefined}
+            background={activeProfile.background}
           />
         ) : null;
 
@@ -497,8 +560,23 @@ const Index: React.FC = () => {
               imageSrc={convertedImageUrl}
               fileName={convertedFileName}
               fileSize={convertedSize}
+              mimeType={convertedMimeType ?? undefined}
               originalImageSrc={originalImage}
+              details={convertedDetails ?? undefined}
+              maxKB={responsiveFiles?.find(file => file.filename === convertedFileName)?.maxKB ?? convertedProfile?.maxKB ?? activeProfile.maxKB}
+              originalMetadata={originalMetadata ?? undefined}
+              originalFormat={originalFormat ?? undefined}
+              complianceReport={complianceReport ?? undefined}
+              profileName={convertedProfile?.name ?? activeProfile.name}
             />
+
+            {responsiveFiles && (
+              <ResponsiveExport
+                files={responsiveFiles}
+                originalName={originalName}
+                displayWidth={activeProfile.width}
+              />
+            )}
             
             <div className="flex flex-col sm:flex-row gap-4">
               <Button onClick={handleEdit} variant="secondary">
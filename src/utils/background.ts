@@ -0,0 +1,167 @@
+// Fundo: remoção do fundo quase uniforme (flood fill a partir das bordas, com
+// tolerância e transição suave) e achatamento da transparência sobre uma cor.
+// Operam sobre ImageData, no worker e na prévia do editor.
+import type { BackgroundOptions } from '@/workers/protocol';
+
+export type { BackgroundOptions } from '@/workers/protocol';
+
+export type Rgba = [number, number, number, number];
+
+// Abaixo disto o pixel é transparente, qualquer que seja a cor
+export const TRANSPARENT_ALPHA = 16;
+export const MAX_FEATHER = 20;
+
+// Deslocamentos (em bytes) dos pixels da borda, sem repetir os cantos
+export function getBorderOffsets(width: number, height: number): number[] {
+  const offsets: number[] = [];
+  for (let x = 0; x < width; x++) {
+    offsets.push(x * 4);
+    if (height > 1) offsets.push(((height - 1) * width + x) * 4);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    offsets.push(y * width * 4);
+    if (width > 1) offsets.push((y * width + width - 1) * 4);
+  }
+  return offsets;
+}
+
+// Mediana de cada canal nos pixels indicados (robusta a sombras e ao produto
+// encostando na borda)
+export function medianColor(data: Uint8ClampedArray, offsets: number[]): Rgba {
+  const color: Rgba = [0, 0, 0, 0];
+  for (let channel = 0; channel < 4; channel++) {
+    const histogram = new Uint32Array(256);
+    for (const p of offsets) histogram[data[p + channel]]++;
+    let seen = 0;
+    let value = 0;
+    while (value < 255 && (seen += histogram[value]) < offsets.length / 2) value++;
+    color[channel] = value;
+  }
+  return color;
+}
+
+// Tolerância em % da faixa de cada canal para diferença em níveis (0–255)
+export const toChannelTolerance = (percent: number): number =>
+  Math.round(Math.min(100, Math.max(0, percent)) / 100 * 255);
+
+// '#rgb' ou '#rrggbb'; cores inválidas viram branco
+export function parseHexColor(hex: string): Rgba {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return [255, 255, 255, 255];
+  const digits = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1];
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)).concat(255) as Rgba;
+}
+
+export function toHexColor(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map(value => value.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Torna transparente o fundo ligado às bordas cuja cor fica dentro da
+// tolerância da cor mediana da borda; o fundo preso dentro do produto (sem
+// ligação com a borda) é mantido. Os feather px do produto mais próximos do
+// fundo recebem alfa crescente. Retorna false quando nenhum fundo foi achado.
+export function removeBackground(image: ImageData, tolerancePercent: number, feather: number): boolean {
+  const { data, width, height } = image;
+  const tolerance = toChannelTolerance(tolerancePercent);
+  const borderOffsets = getBorderOffsets(width, height);
+  const reference = medianColor(data, borderOffsets);
+  const transparentReference = reference[3] < TRANSPARENT_ALPHA;
+
+  const matches = (i: number): boolean => {
+    const p = i * 4;
+    if (transparentReference) {
+      return data[p + 3] < TRANSPARENT_ALPHA;
+    }
+    return Math.abs(data[p] - reference[0]) <= tolerance &&
+      Math.abs(data[p + 1] - reference[1]) <= tolerance &&
+      Math.abs(data[p + 2] - reference[2]) <= tolerance &&
+      Math.abs(data[p + 3] - reference[3]) <= tolerance;
+  };
+
+  // Cada pixel entra na fila uma só vez: como fundo ou como camada da transição
+  const background = new Uint8Array(width * height);
+  const distance = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let tail = 0;
+
+  const visitNeighbours = (i: number, visit: (n: number) => void) => {
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < width * (height - 1)) visit(i + width);
+  };
+
+  for (const p of borderOffsets) {
+    const i = p / 4;
+    if (!background[i] && matches(i)) {
+      background[i] = 1;
+      queue[tail++] = i;
+    }
+  }
+  for (let head = 0; head < tail; head++) {
+    visitNeighbours(queue[head], n => {
+      if (!background[n] && matches(n)) {
+        background[n] = 1;
+        queue[tail++] = n;
+      }
+    });
+  }
+  if (tail === 0) {
+    return false;
+  }
+
+  // Camadas do produto a partir do fundo, uma por px de transição
+  const layers = Math.round(Math.min(MAX_FEATHER, Math.max(0, feather)));
+  let start = 0;
+  for (let layer = 1; layer <= layers; layer++) {
+    const end = tail;
+    for (let q = start; q < end; q++) {
+      visitNeighbours(queue[q], n => {
+        if (!background[n] && !distance[n]) {
+          distance[n] = layer;
+          queue[tail++] = n;
+        }
+      });
+    }
+    start = end;
+  }
+
+  for (let i = 0; i < background.length; i++) {
+    if (background[i]) {
+      data[i * 4 + 3] = 0;
+    } else if (distance[i]) {
+      data[i * 4 + 3] = Math.round(data[i * 4 + 3] * distance[i] / (layers + 1));
+    }
+  }
+  return true;
+}
+
+// Compor a imagem sobre uma cor sólida: o resultado fica totalmente opaco
+export function flattenAlpha(image: ImageData, color: Rgba): void {
+  const { data } = image;
+  for (let p = 0; p < data.length; p += 4) {
+    const alpha = data[p + 3];
+    if (alpha === 255) continue;
+    const f = alpha / 255;
+    data[p] = Math.round(data[p] * f + color[0] * (1 - f));
+    data[p + 1] = Math.round(data[p + 1] * f + color[1] * (1 - f));
+    data[p + 2] = Math.round(data[p + 2] * f + color[2] * (1 - f));
+    data[p + 3] = 255;
+  }
+}
+
+// Aplicar as etapas de fundo do perfil; formatos sem alfa (forceFlatten) são
+// sempre achatados, senão a transparência viraria preto no arquivo
+export function applyBackground(image: ImageData, options: BackgroundOptions, forceFlatten = false): void {
+  if (options.remove) {
+    removeBackground(image, options.tolerance, options.feather);
+  }
+  if (options.flatten || forceFlatten) {
+    flattenAlpha(image, parseHexColor(options.flattenColor));
+  }
+}
+
+export function needsBackgroundPass(options: BackgroundOptions, forceFlatten = false): boolean {
+  return options.remove || options.flatten || forceFlatten;
+}
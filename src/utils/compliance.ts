@@ -0,0 +1,101 @@
+// Relatório de conformidade: compara uma imagem gerada com as regras de
+// marketplace do perfil e classifica cada regra como aprovada, alerta ou falha
+import type { ComplianceRules, ConversionDetails, OutputFormat } from '@/workers/protocol';
+import { getFormatLabel } from './formats';
+
+export type ComplianceStatus = 'pass' | 'warn' | 'fail';
+
+export interface ComplianceCheck {
+  label: string;
+  status: ComplianceStatus;
+  detail: string;
+}
+
+export interface ComplianceReport {
+  // O pior resultado entre as verificações
+  status: ComplianceStatus;
+  checks: ComplianceCheck[];
+}
+
+export interface ComplianceSubject {
+  details: ConversionDetails;
+  size: number;
+  mimeType: string;
+}
+
+export const COMPLIANCE_STATUS_LABELS: Record<ComplianceStatus, string> = {
+  pass: 'Aprovada',
+  warn: 'Atenção',
+  fail: 'Reprovada'
+};
+
+// Fundo branco: a partir daqui a borda está aprovada; entre os dois, alerta
+const WHITE_BORDER_PASS = 0.98;
+const WHITE_BORDER_WARN = 0.9;
+// Pontos percentuais abaixo do preenchimento mínimo que ainda são só alerta
+const FILL_WARN_MARGIN = 5;
+// Fração do tamanho máximo a partir da qual o arquivo fica perto do limite
+const FILE_SIZE_WARN = 0.9;
+
+const STATUS_ORDER: ComplianceStatus[] = ['pass', 'warn', 'fail'];
+
+const formatPercent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+export function evaluateCompliance(rules: ComplianceRules, { details, size, mimeType }: ComplianceSubject): ComplianceReport {
+  const checks: ComplianceCheck[] = [];
+  const { analysis } = details;
+
+  const tooSmall = details.width < rules.minWidth || details.height < rules.minHeight;
+  checks.push({
+    label: 'Dimensões',
+    status: tooSmall ? 'fail' : 'pass',
+    detail: `${details.width}×${details.height} px (mínimo ${rules.minWidth}×${rules.minHeight})`
+  });
+
+  const maxBytes = rules.maxFileKB * 1024;
+  checks.push({
+    label: 'Tamanho do arquivo',
+    status: size > maxBytes ? 'fail' : size > maxBytes * FILE_SIZE_WARN ? 'warn' : 'pass',
+    detail: `${(size / 1024).toFixed(1)} KB (máximo ${rules.maxFileKB} KB)`
+  });
+
+  checks.push({
+    label: 'Formato',
+    status: rules.allowedFormats.includes(mimeType as OutputFormat) ? 'pass' : 'fail',
+    detail: `${getFormatLabel(mimeType)} (aceitos: ${rules.allowedFormats.map(getFormatLabel).join(', ')})`
+  });
+
+  if (rules.whiteBackground) {
+    if (!analysis) {
+      checks.push({ label: 'Fundo branco', status: 'warn', detail: 'Não verificado para este resultado' });
+    } else if (analysis.hasTransparency && analysis.whiteBorder < WHITE_BORDER_PASS) {
+      checks.push({ label: 'Fundo branco', status: 'fail', detail: 'Fundo transparente; a loja exige branco' });
+    } else {
+      checks.push({
+        label: 'Fundo branco',
+        status: analysis.whiteBorder >= WHITE_BORDER_PASS ? 'pass'
+          : analysis.whiteBorder >= WHITE_BORDER_WARN ? 'warn' : 'fail',
+        detail: `${formatPercent(analysis.whiteBorder)} da borda em branco puro`
+      });
+    }
+  }
+
+  if (rules.minFillPercent > 0) {
+    const fillPercent = analysis ? analysis.fill * 100 : null;
+    checks.push({
+      label: 'Preenchimento do quadro',
+      status: fillPercent === null ? 'warn'
+        : fillPercent >= rules.minFillPercent ? 'pass'
+          : fillPercent >= rules.minFillPercent - FILL_WARN_MARGIN ? 'warn' : 'fail',
+      detail: fillPercent === null
+        ? 'Não verificado para este resultado'
+        : `Produto ocupa ${Math.round(fillPercent)}% (mínimo ${rules.minFillPercent}%)`
+    });
+  }
+
+  const status = checks.reduce<ComplianceStatus>(
+    (worst, check) => STATUS_ORDER.indexOf(check.status) > STATUS_ORDER.indexOf(worst) ? check.status : worst,
+    'pass'
+  );
+  return { status, checks };
+}
@@ -0,0 +1,110 @@
+// Conjuntos de exportação: uma foto entregue em várias proporções e tamanhos de
+// uma vez (feed, story, banner...), com todos os recortes montados em volta de
+// um único ponto focal e ajustáveis um a um
+import type { CropRect, EncodingProfile } from '@/workers/protocol';
+import { getFormatExtension } from './formats';
+import { slugifyFileName } from './responsive';
+
+export interface ExportSetOutput {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface ExportSet {
+  id: string;
+  name: string;
+  outputs: ExportSetOutput[];
+}
+
+// Posição relativa na imagem (0 a 1 nos dois eixos)
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+// Ajuste fino de uma saída: centro próprio (em vez do ponto focal) e zoom,
+// em que 1 é o maior recorte possível naquela proporção
+export interface CropAdjustment {
+  center?: FocalPoint;
+  zoom: number;
+}
+
+export const DEFAULT_FOCAL_POINT: FocalPoint = { x: 0.5, y: 0.5 };
+export const MAX_CROP_ZOOM = 4;
+
+export const EXPORT_SETS: ExportSet[] = [
+  {
+    id: 'social',
+    name: 'Redes sociais',
+    outputs: [
+      { id: 'feed', name: 'Feed 1:1', width: 1080, height: 1080 },
+      { id: 'portrait', name: 'Retrato 4:5', width: 1080, height: 1350 },
+      { id: 'story', name: 'Story 9:16', width: 1080, height: 1920 },
+      { id: 'banner', name: 'Banner 1.91:1', width: 1200, height: 628 }
+    ]
+  },
+  {
+    id: 'marketplace',
+    name: 'Marketplace',
+    outputs: [
+      { id: 'product', name: 'Produto 1:1', width: 1200, height: 1200 },
+      { id: 'showcase', name: 'Vitrine 4:3', width: 1200, height: 900 },
+      { id: 'cover', name: 'Capa 16:9', width: 1920, height: 1080 }
+    ]
+  },
+  {
+    id: 'web',
+    name: 'Site e blog',
+    outputs: [
+      { id: 'og', name: 'Compartilhamento (Open Graph)', width: 1200, height: 630 },
+      { id: 'hero', name: 'Destaque 21:9', width: 2100, height: 900 },
+      { id: 'thumb', name: 'Miniatura 3:2', width: 600, height: 400 }
+    ]
+  }
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Maior recorte na proporção da saída, dividido pelo zoom e centrado no ponto
+// (ou o mais perto dele que as bordas da imagem permitem)
+export function computeFocalCrop(
+  imageWidth: number,
+  imageHeight: number,
+  output: Pick<ExportSetOutput, 'width' | 'height'>,
+  center: FocalPoint,
+  zoom = 1
+): CropRect {
+  const aspect = output.width / output.height;
+  const fullWidth = imageWidth / imageHeight > aspect ? imageHeight * aspect : imageWidth;
+  const width = fullWidth / clamp(zoom, 1, MAX_CROP_ZOOM);
+  const height = width / aspect;
+  return {
+    x: clamp(center.x * imageWidth - width / 2, 0, imageWidth - width),
+    y: clamp(center.y * imageHeight - height / 2, 0, imageHeight - height),
+    width,
+    height
+  };
+}
+
+// O orçamento do perfil vale para a área dele; cada saída recebe a fatia
+// proporcional à sua área, no tamanho e com as dimensões mínimas da saída
+export function fitProfileToOutput(profile: EncodingProfile, output: ExportSetOutput): EncodingProfile {
+  const areaRatio = (output.width * output.height) / (profile.width * profile.height);
+  const linearRatio = Math.sqrt(areaRatio);
+  return {
+    ...profile,
+    width: output.width,
+    height: output.height,
+    maxKB: Math.max(1, Math.round(profile.maxKB * areaRatio)),
+    minKB: Math.round(profile.minKB * areaRatio),
+    minWidth: Math.min(output.width, Math.max(1, Math.round(profile.minWidth * linearRatio))),
+    minHeight: Math.min(output.height, Math.max(1, Math.round(profile.minHeight * linearRatio)))
+  };
+}
+
+// produto-feed-1080x1080.webp; o sufixo de tempo evita colisões no IndexedDB
+export function getExportSetFileName(originalName: string, output: ExportSetOutput, mimeType: string, stamp: string): string {
+  return `${slugifyFileName(originalName)}-${output.id}-${stamp}-${output.width}x${output.height}.${getFormatExtension(mimeType)}`;
+}
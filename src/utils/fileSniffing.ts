@@ -0,0 +1,333 @@
+// Identificação do formato pelo conteúdo (assinatura nos primeiros bytes) em vez
+// do file.type: arquivos vindos de alguns sistemas chegam sem tipo, como
+// application/octet-stream ou com extensões como .jfif. Imagens também têm a
+// estrutura conferida para acusar arquivos truncados antes de irem ao worker.
+import { isBmp } from '@/workers/bmp';
+import { isGif } from '@/workers/gif';
+import { isIco } from '@/workers/ico';
+import { isTiff } from '@/workers/tiff';
+
+export type MediaKind = 'image' | 'video';
+
+export interface DetectedFormat {
+  mimeType: string;
+  label: string;
+  kind: MediaKind;
+  // Tipo informado pelo navegador, quando difere do conteúdo ('' se ausente)
+  declaredType?: string;
+}
+
+export interface IdentifiedFile {
+  // O mesmo arquivo, com o tipo corrigido quando o informado estava errado
+  file: File;
+  format: DetectedFormat;
+}
+
+// Bytes lidos para reconhecer a assinatura (SVG pode começar com comentários)
+const HEADER_BYTES = 4096;
+// Bytes do fim do arquivo lidos por vez nas verificações que olham o final
+const TRAILER_BYTES = 64 * 1024;
+
+// Filtros dos seletores de arquivo: além dos tipos, as extensões, para que
+// arquivos sem tipo ou com o tipo errado (um .webp como application/octet-stream)
+// apareçam na janela do sistema e cheguem à identificação pelo conteúdo
+export const IMAGE_FILE_ACCEPT = [
+  'image/*',
+  '.jpg', '.jpeg', '.jfif', '.pjpeg', '.pjp', '.png', '.apng', '.webp', '.gif', '.avif',
+  '.heic', '.heif', '.tif', '.tiff', '.bmp', '.dib', '.ico', '.cur', '.svg', '.jxl'
+].join(',');
+export const MEDIA_FILE_ACCEPT = [
+  IMAGE_FILE_ACCEPT,
+  'video/*',
+  '.mp4', '.m4v', '.mov', '.webm', '.mkv', '.avi', '.ogv', '.3gp'
+].join(',');
+
+// Marcas ISO BMFF (ftyp) de imagens; as demais são vídeos MP4/MOV/3GP
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+const HEIF_BRANDS = ['mif1', 'msf1'];
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const image = (mimeType: string, label: string): DetectedFormat => ({ mimeType, label, kind: 'image' });
+const video = (mimeType: string, label: string): DetectedFormat => ({ mimeType, label, kind: 'video' });
+
+// Marcas declaradas no ftyp: a principal e as compatíveis
+const readBrands = (bytes: Uint8Array): string[] => {
+  const size = Math.min(viewOf(bytes).getUint32(0), bytes.length);
+  const brands = [ascii(bytes, 8, 4)];
+  for (let offset = 16; offset + 4 <= size; offset += 4) {
+    brands.push(ascii(bytes, offset, 4));
+  }
+  return brands;
+};
+
+const sniffIsoBmff = (bytes: Uint8Array): DetectedFormat => {
+  const brands = readBrands(bytes);
+  const major = brands[0];
+  if (AVIF_BRANDS.includes(major)) return image('image/avif', 'AVIF');
+  if (HEIC_BRANDS.includes(major)) return image('image/heic', 'HEIC');
+  if (HEIF_BRANDS.includes(major)) {
+    // mif1 é genérico: as marcas compatíveis dizem o codec
+    if (brands.some(brand => AVIF_BRANDS.includes(brand))) return image('image/avif', 'AVIF');
+    if (brands.some(brand => HEIC_BRANDS.includes(brand))) return image('image/heic', 'HEIC');
+    return image('image/heif', 'HEIF');
+  }
+  if (major === 'qt  ') return video('video/quicktime', 'MOV');
+  if (major.startsWith('3g')) return video('video/3gpp', '3GP');
+  return video('video/mp4', 'MP4');
+};
+
+// Texto XML cuja raiz é <svg>, depois de declarações, comentários e DOCTYPE
+const isSvgText = (bytes: Uint8Array): boolean => {
+  const text = new TextDecoder().decode(bytes);
+  return /^\s*(?:<\?xml[^>]*\?>\s*)?(?:(?:<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)\s*)*<svg[\s>]/i.test(text);
+};
+
+// Formato pelos primeiros bytes; null quando nenhuma assinatura conhecida bate
+export function sniffFormat(bytes: Uint8Array): DetectedFormat | null {
+  if (bytes.length < 4) return null;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return image('image/jpeg', 'JPEG');
+  if (ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return image('image/png', 'PNG');
+  if (isGif(bytes)) return image('image/gif', 'GIF');
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    const form = ascii(bytes, 8, 4);
+    if (form === 'WEBP') return image('image/webp', 'WebP');
+    if (form === 'AVI ') return video('video/x-msvideo', 'AVI');
+    return null;
+  }
+  if (ascii(bytes, 4, 4) === 'ftyp' && bytes.length >= 12) return sniffIsoBmff(bytes);
+  if (isTiff(bytes)) return image('image/tiff', 'TIFF');
+  if (isBmp(bytes)) return image('image/bmp', 'BMP');
+  if (isIco(bytes)) return image('image/x-icon', bytes[2] === 2 ? 'CUR' : 'ICO');
+  if ((bytes[0] === 0xff && bytes[1] === 0x0a) || ascii(bytes, 4, 4) === 'JXL ') return image('image/jxl', 'JPEG XL');
+  if (viewOf(bytes).getUint32(0) === 0x1a45dfa3) {
+    // EBML: o DocType diz se é WebM ou Matroska
+    return ascii(bytes, 0, 64).includes('webm') ? video('video/webm', 'WebM') : video('video/x-matroska', 'MKV');
+  }
+  if (ascii(bytes, 0, 4) === 'OggS') return video('video/ogg', 'Ogg');
+  if (isSvgText(bytes)) return image('image/svg+xml', 'SVG');
+  return null;
+}
+
+// Tipos que sabemos reconhecer: se o arquivo diz ser um deles e o conteúdo não
+// bate, ele está corrompido (ou não é o que diz)
+const SNIFFABLE_TYPES: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/pjpeg': 'JPEG',
+  'image/jpg': 'JPEG',
+  'image/png': 'PNG',
+  'image/apng': 'PNG',
+  'image/gif': 'GIF',
+  'image/webp': 'WebP',
+  'image/avif': 'AVIF',
+  'image/heic': 'HEIC',
+  'image/heif': 'HEIF',
+  'image/tiff': 'TIFF',
+  'image/bmp': 'BMP',
+  'image/x-ms-bmp': 'BMP',
+  'image/x-icon': 'ICO',
+  'image/vnd.microsoft.icon': 'ICO',
+  'image/svg+xml': 'SVG'
+};
+
+// Tipos equivalentes não contam como divergência
+const normalizeType = (type: string): string => ({
+  'image/pjpeg': 'image/jpeg',
+  'image/jpg': 'image/jpeg',
+  'image/apng': 'image/png',
+  'image/x-ms-bmp': 'image/bmp',
+  'image/vnd.microsoft.icon': 'image/x-icon',
+  'image/heic-sequence': 'image/heic',
+  'image/heif-sequence': 'image/heif'
+}[type] ?? type);
+
+const truncated = (label: string, detail: string) =>
+  new Error(`Arquivo truncado: o ${label} termina antes do fim dos dados (${detail}). O download ou a cópia pode ter sido interrompido.`);
+
+const corrupt = (label: string, detail: string) => new Error(`Arquivo ${label} corrompido: ${detail}.`);
+
+// Ler um trecho do arquivo sem carregar o resto na memória
+const readRange = async (file: Blob, start: number, end: number): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+// JPEG: segmentos até o primeiro SOS, lendo só o cabeçalho de cada um. Nos dados
+// comprimidos FF só aparece seguido de 00 ou de um marcador, então basta achar
+// um FF D9 (EOI) procurando de trás para frente, em janelas, até o início dos
+// dados. Dados depois do EOI, comuns em fotos de celular, não atrapalham.
+const checkJpeg = async (file: Blob) => {
+  let offset = 2;
+  for (;;) {
+    const segment = await readRange(file, offset, offset + 4);
+    if (segment.length < 2) {
+      throw truncated('JPEG', 'sem o marcador de fim de imagem');
+    }
+    if (segment[0] !== 0xff) {
+      throw corrupt('JPEG', `marcador esperado na posição ${offset}`);
+    }
+    const marker = segment[1];
+    if (marker === 0xff) {
+      offset++; // Preenchimento entre marcadores
+      continue;
+    }
+    if (marker === 0xd9) return;
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    const end = segment.length === 4 ? offset + 2 + ((segment[2] << 8) | segment[3]) : Infinity;
+    if (end > file.size) {
+      throw truncated('JPEG', 'segmento incompleto');
+    }
+    offset = end;
+    if (marker === 0xda) break;
+  }
+
+  // Janelas sobrepostas em um byte, para não perder um FF D9 dividido entre duas
+  for (let end = file.size; end > offset; end -= TRAILER_BYTES) {
+    const bytes = await readRange(file, Math.max(offset, end - TRAILER_BYTES - 1), end);
+    for (let i = bytes.length - 2; i >= 0; i--) {
+      if (bytes[i] === 0xff && bytes[i + 1] === 0xd9) return;
+    }
+  }
+  throw truncated('JPEG', 'sem o marcador de fim de imagem');
+};
+
+// PNG: IHDR no início e o chunk IEND (tamanho zero) perto do fim
+const checkPng = async (file: Blob, header: Uint8Array) => {
+  if (ascii(header, 12, 4) !== 'IHDR') {
+    throw corrupt('PNG', 'cabeçalho IHDR ausente');
+  }
+  const tail = await readRange(file, Math.max(8, file.size - TRAILER_BYTES), file.size);
+  for (let i = tail.length - 8; i >= 0; i--) {
+    if (ascii(tail, i + 4, 4) === 'IEND' && viewOf(tail).getUint32(i) === 0) return;
+  }
+  throw truncated('PNG', 'sem o chunk IEND');
+};
+
+// GIF: o arquivo termina no trailer (3B) ou, quando ele falta (o que os
+// navegadores toleram), no terminador de blocos (00) do último quadro
+const checkGif = async (file: Blob) => {
+  const [last] = await readRange(file, file.size - 1, file.size);
+  if (last !== 0x3b && last !== 0x00) {
+    throw truncated('GIF', 'quadro incompleto');
+  }
+};
+
+// RIFF (WebP): o tamanho declarado precisa caber no arquivo
+const checkRiff = (file: Blob, header: Uint8Array, label: string) => {
+  if (8 + viewOf(header).getUint32(4, true) > file.size) {
+    throw truncated(label, 'faltam bytes declarados no cabeçalho RIFF');
+  }
+};
+
+// ISO BMFF (AVIF/HEIC): caixas de primeiro nível completas, lendo só o
+// cabeçalho de cada uma
+const checkIsoBmff = async (file: Blob, label: string) => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const box = await readRange(file, offset, offset + 16);
+    const view = viewOf(box);
+    let size = view.getUint32(0);
+    if (size === 0) return; // Vai até o fim do arquivo
+    if (size === 1) {
+      if (box.length < 16) break;
+      size = Number(view.getBigUint64(8));
+    }
+    if (size < 8) {
+      throw corrupt(label, `caixa ${ascii(box, 4, 4)} com tamanho inválido`);
+    }
+    offset += size;
+  }
+  if (offset !== file.size) {
+    throw truncated(label, 'caixa incompleta');
+  }
+};
+
+// BMP: os pixels precisam caber no arquivo (quando o tamanho é conhecido)
+const checkBmp = (file: Blob, header: Uint8Array) => {
+  const view = viewOf(header);
+  const pixelOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+  const imageSize = headerSize >= 40 ? view.getUint32(34, true) : 0;
+  if (pixelOffset >= file.size || pixelOffset + imageSize > file.size) {
+    throw truncated('BMP', 'faltam pixels');
+  }
+};
+
+// TIFF: o primeiro diretório precisa estar dentro do arquivo
+const checkTiff = async (file: Blob, header: Uint8Array) => {
+  const view = viewOf(header);
+  const littleEndian = header[0] === 0x49;
+  if (view.getUint16(2, littleEndian) !== 42) return; // BigTIFF: deixa o decodificador explicar
+  const ifd = view.getUint32(4, littleEndian);
+  const count = await readRange(file, ifd, ifd + 2);
+  if (count.length < 2 || ifd + 2 + viewOf(count).getUint16(0, littleEndian) * 12 > file.size) {
+    throw truncated('TIFF', 'diretório da imagem fora do arquivo');
+  }
+};
+
+// Conferir a estrutura do arquivo; lança um erro específico se estiver truncado
+// ou corrompido. Só o cabeçalho, o final e trechos pequenos são lidos: o
+// arquivo inteiro nunca é carregado. Formatos sem verificação passam direto.
+export async function checkIntegrity(file: Blob, header: Uint8Array, format: DetectedFormat): Promise<void> {
+  switch (format.mimeType) {
+    case 'image/jpeg': return checkJpeg(file);
+    case 'image/png': return checkPng(file, header);
+    case 'image/gif': return checkGif(file);
+    case 'image/webp': return checkRiff(file, header, format.label);
+    case 'image/avif':
+    case 'image/heic':
+    case 'image/heif': return checkIsoBmff(file, format.label);
+    case 'image/bmp': return checkBmp(file, header);
+    case 'image/tiff': return checkTiff(file, header);
+  }
+}
+
+// Identificar um arquivo solto, colado ou escolhido: pelo conteúdo quando a
+// assinatura é conhecida, pelo tipo informado quando não é. Lança um erro
+// explicando o problema quando o arquivo não pode ser aceito.
+export async function identifyFile(file: File): Promise<IdentifiedFile> {
+  if (file.size === 0) {
+    throw new Error(`O arquivo "${file.name}" está vazio.`);
+  }
+
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const declaredType = normalizeType(file.type);
+  let format = sniffFormat(header);
+
+  if (!format) {
+    const expected = SNIFFABLE_TYPES[file.type];
+    if (expected) {
+      throw new Error(`O conteúdo de "${file.name}" não é um ${expected} válido: o arquivo está corrompido ou não é uma imagem.`);
+    }
+    // Formatos que não sabemos reconhecer (outros contêineres de vídeo, por
+    // exemplo) seguem pelo tipo informado; o navegador dirá se consegue abrir
+    const kind = declaredType.split('/')[0];
+    if (kind !== 'image' && kind !== 'video') {
+      throw new Error(`Formato não reconhecido: "${file.name}" não é uma imagem nem um vídeo suportado.`);
+    }
+    return { file, format: { mimeType: declaredType, label: declaredType.split('/')[1].toUpperCase(), kind } };
+  }
+
+  // Vídeos podem ter gigabytes: a estrutura deles fica por conta do navegador
+  if (format.kind === 'image') {
+    await checkIntegrity(file, header, format);
+  }
+
+  if (declaredType === format.mimeType) {
+    return { file, format };
+  }
+  format = { ...format, declaredType: file.type };
+  const retyped = new File([file], file.name, { type: format.mimeType, lastModified: file.lastModified });
+  return { file: retyped, format };
+}
+
+// Texto curto para a interface, mencionando o tipo informado quando divergia
+export function describeDetectedFormat(format: DetectedFormat): string {
+  if (format.declaredType === undefined) return format.label;
+  return `${format.label} (identificado pelo conteúdo; o arquivo dizia ${format.declaredType || 'tipo desconhecido'})`;
+}
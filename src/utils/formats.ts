@@ -0,0 +1,67 @@
+// Formatos de saída suportados e detecção do que o navegador consegue codificar
+import type { OutputFormat } from '@/workers/protocol';
+
+export type { OutputFormat } from '@/workers/protocol';
+
+interface FormatInfo {
+  label: string;
+  extension: string;
+  lossy: boolean;
+  // Guarda transparência; sem ela os pixels transparentes viram preto
+  alpha: boolean;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, FormatInfo> = {
+  'image/webp': { label: 'WebP', extension: 'webp', lossy: true, alpha: true },
+  'image/avif': { label: 'AVIF', extension: 'avif', lossy: true, alpha: true },
+  'image/jpeg': { label: 'JPEG', extension: 'jpg', lossy: true, alpha: false },
+  'image/png': { label: 'PNG', extension: 'png', lossy: false, alpha: true }
+};
+
+export function isLossyFormat(format: OutputFormat): boolean {
+  return OUTPUT_FORMATS[format]?.lossy ?? true;
+}
+
+export function supportsAlpha(mimeType: string): boolean {
+  return OUTPUT_FORMATS[mimeType as OutputFormat]?.alpha ?? true;
+}
+
+// Extensão de arquivo para um MIME type (webp quando desconhecido)
+export function getFormatExtension(mimeType: string): string {
+  return OUTPUT_FORMATS[mimeType as OutputFormat]?.extension ?? 'webp';
+}
+
+export function getFormatLabel(mimeType: string): string {
+  return OUTPUT_FORMATS[mimeType as OutputFormat]?.label ?? mimeType;
+}
+
+let encodableFormatsPromise: Promise<OutputFormat[]> | null = null;
+
+// Detectar os formatos que o OffscreenCanvas consegue codificar. Quando um tipo
+// não é suportado o navegador devolve PNG em vez de falhar, então comparamos o
+// tipo do blob gerado com o pedido.
+export function detectEncodableFormats(): Promise<OutputFormat[]> {
+  if (!encodableFormatsPromise) {
+    encodableFormatsPromise = (async () => {
+      if (typeof OffscreenCanvas === 'undefined') {
+        return [];
+      }
+
+      const canvas = new OffscreenCanvas(2, 2);
+      canvas.getContext('2d')?.fillRect(0, 0, 2, 2);
+
+      const formats = Object.keys(OUTPUT_FORMATS) as OutputFormat[];
+      const results = await Promise.all(formats.map(async format => {
+        try {
+          const blob = await canvas.convertToBlob({ type: format });
+          return blob.type === format;
+        } catch {
+          return false;
+        }
+      }));
+
+      return formats.filter((_, i) => results[i]);
+    })();
+  }
+  return encodableFormatsPromise;
+}
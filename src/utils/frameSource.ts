@@ -0,0 +1,217 @@
+// Fontes de quadros para o seletor de quadros: vídeos (HTMLVideoElement) e
+// imagens animadas (ImageDecoder do WebCodecs, ou o decodificador de GIF do
+// worker quando o navegador não tem ImageDecoder)
+import { isGif, parseGif, renderGifFrames } from '@/workers/gif';
+import type { DetectedFormat } from '@/utils/fileSniffing';
+
+export interface FrameSource {
+  // video: posições em segundos; animation: índices de quadro
+  kind: 'video' | 'animation';
+  // Duração em segundos ou quantidade de quadros
+  length: number;
+  // Passo do scrubber: um quadro de vídeo a 30 fps ou um quadro da animação
+  step: number;
+  getFrame: (position: number) => Promise<ImageBitmap>;
+  close: () => void;
+}
+
+const VIDEO_FRAME_STEP = 1 / 30;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// Tipo MIME pelo conteúdo: arquivos arrastados nem sempre trazem file.type
+const sniffAnimationType = (bytes: Uint8Array): string | null => {
+  if (isGif(bytes)) return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'image/png';
+  return null;
+};
+
+// Bytes lidos por vez ao percorrer os blocos de um GIF
+const GIF_WINDOW_BYTES = 64 * 1024;
+
+const readRange = async (file: Blob, start: number, end: number): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+// GIF com mais de um quadro: percorre os blocos em janelas, parando no segundo
+// descritor de imagem, sem carregar o arquivo inteiro
+const hasSecondGifFrame = async (file: Blob): Promise<boolean> => {
+  let windowStart = 0;
+  let frameWindow = new Uint8Array(0);
+  const byteAt = async (offset: number): Promise<number | undefined> => {
+    if (offset < windowStart || offset >= windowStart + frameWindow.length) {
+      if (offset >= file.size) return undefined;
+      windowStart = offset;
+      frameWindow = await readRange(file, offset, offset + GIF_WINDOW_BYTES);
+    }
+    return frameWindow[offset - windowStart];
+  };
+  const colorTableSize = (flags: number) => (flags & 0x80 ? 3 * (1 << ((flags & 0x07) + 1)) : 0);
+  const skipSubBlocks = async (start: number): Promise<number | null> => {
+    let position = start;
+    for (let size = await byteAt(position); size !== 0; size = await byteAt(position)) {
+      if (size === undefined) return null;
+      position += size + 1;
+    }
+    return position + 1;
+  };
+
+  let frames = 0;
+  let offset: number | null = 13 + colorTableSize((await byteAt(10)) ?? 0);
+  while (offset !== null) {
+    const marker = await byteAt(offset);
+    if (marker === 0x21) {
+      offset = await skipSubBlocks(offset + 2);
+    } else if (marker === 0x2c) {
+      if (++frames > 1) return true;
+      offset = await skipSubBlocks(offset + 10 + colorTableSize((await byteAt(offset + 9)) ?? 0) + 1);
+    } else {
+      return false;
+    }
+  }
+  return false;
+};
+
+// Imagem com mais de um quadro: GIF com vários quadros, WebP com a flag de
+// animação no VP8X ou PNG com o chunk acTL (APNG) antes dos dados da imagem.
+// Só o cabeçalho e os blocos necessários são lidos.
+export async function isAnimatedImage(file: Blob): Promise<boolean> {
+  const header = await readRange(file, 0, 32);
+  switch (sniffAnimationType(header)) {
+    case 'image/gif':
+      return hasSecondGifFrame(file);
+    case 'image/webp':
+      return ascii(header, 12, 4) === 'VP8X' && (header[20] & 0x02) !== 0;
+    case 'image/png': {
+      for (let offset = 8; offset + 8 <= file.size; ) {
+        const chunk = await readRange(file, offset, offset + 8);
+        const type = ascii(chunk, 4, 4);
+        if (type === 'acTL') return true;
+        if (type === 'IDAT') return false;
+        offset += 12 + new DataView(chunk.buffer).getUint32(0);
+      }
+      return false;
+    }
+    default:
+      return false;
+  }
+}
+
+const openVideo = (file: File): Promise<FrameSource> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  // Buscas em sequência: uma nova só começa quando a anterior terminou
+  let pending: Promise<unknown> = Promise.resolve();
+  const seek = (time: number) => new Promise<void>((done, fail) => {
+    if (Math.abs(video.currentTime - time) < VIDEO_FRAME_STEP / 2 && video.readyState >= 2) {
+      done();
+      return;
+    }
+    video.onseeked = () => done();
+    video.onerror = () => fail(new Error('Não foi possível decodificar este trecho do vídeo.'));
+    video.currentTime = time;
+  });
+
+  video.onloadeddata = () => {
+    if (!Number.isFinite(video.duration) || video.duration <= 0) {
+      URL.revokeObjectURL(url);
+      reject(new Error('Não foi possível determinar a duração do vídeo.'));
+      return;
+    }
+    resolve({
+      kind: 'video',
+      length: video.duration,
+      step: VIDEO_FRAME_STEP,
+      getFrame: (position) => {
+        const frame = pending.then(async () => {
+          await seek(Math.min(Math.max(0, position), video.duration));
+          return createImageBitmap(video);
+        });
+        pending = frame.catch(() => undefined);
+        return frame;
+      },
+      close: () => {
+        video.removeAttribute('src');
+        video.load();
+        URL.revokeObjectURL(url);
+      }
+    });
+  };
+  video.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Este navegador não consegue reproduzir este vídeo.'));
+  };
+  video.src = url;
+});
+
+const openWithImageDecoder = async (bytes: Uint8Array, type: string): Promise<FrameSource> => {
+  const decoder = new ImageDecoder({ data: bytes, type });
+  try {
+    // O total de quadros só é definitivo depois de o arquivo inteiro ser lido
+    await decoder.completed;
+    const track = decoder.tracks.selectedTrack;
+    if (!track) {
+      throw new Error('A animação não tem quadros.');
+    }
+    return {
+      kind: 'animation',
+      length: track.frameCount,
+      step: 1,
+      getFrame: async (position) => {
+        const { image } = await decoder.decode({ frameIndex: Math.round(position) });
+        try {
+          return await createImageBitmap(image);
+        } finally {
+          image.close();
+        }
+      },
+      close: () => decoder.close()
+    };
+  } catch (error) {
+    decoder.close();
+    throw error;
+  }
+};
+
+// Sem ImageDecoder, GIFs ainda podem ser compostos quadro a quadro aqui mesmo
+const openGif = (bytes: Uint8Array): FrameSource => {
+  const gif = parseGif(bytes);
+  return {
+    kind: 'animation',
+    length: gif.frames.length,
+    step: 1,
+    getFrame: async (position) => {
+      const index = Math.min(gif.frames.length - 1, Math.max(0, Math.round(position)));
+      let current = 0;
+      for (const { pixels } of renderGifFrames(gif)) {
+        if (current++ === index) {
+          return createImageBitmap(new ImageData(pixels.slice(), gif.width, gif.height));
+        }
+      }
+      throw new Error('Quadro fora da animação.');
+    },
+    close: () => undefined
+  };
+};
+
+// Abrir um vídeo ou uma imagem animada para escolher quadros. O formato é o
+// identificado pelo conteúdo; o arquivo só é lido inteiro quando os quadros
+// vão ser decodificados aqui.
+export async function openFrameSource(file: File, format: DetectedFormat): Promise<FrameSource> {
+  if (format.kind === 'video') {
+    return openVideo(file);
+  }
+
+  const { mimeType } = format;
+  const decodable = typeof ImageDecoder !== 'undefined' && await ImageDecoder.isTypeSupported(mimeType);
+  if (!decodable && mimeType !== 'image/gif') {
+    throw new Error('Este navegador não consegue separar os quadros desta animação.');
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return decodable ? openWithImageDecoder(bytes, mimeType) : openGif(bytes);
+}
@@ -0,0 +1,568 @@
+// Pool de Web Workers de imagens com fila compartilhada: cada job recebe um id
+// e só a promise que o criou recebe o resultado correspondente.
+//
+// O pool também supervisiona cada worker: todo job tem um prazo (timeout), sem
+// exceção, e é ele que detecta um worker travado no meio de um job, já que um
+// worker ocupado com código síncrono não consegue responder ao health check.
+// Workers ociosos são vigiados pelas respostas ao health check. Em ambos os
+// casos o pool reinicia o worker e recoloca na fila (ou rejeita) os jobs que
+// estavam pendentes. Jobs longos (animações e exportações responsivas) renovam
+// o prazo a cada etapa que o worker conclui. Um orçamento de memória limita
+// quantos jobs grandes rodam ao mesmo tempo. Jobs podem ser cancelados por um
+// AbortSignal, inclusive no meio da busca de qualidade.
+import type {
+  AnimationJobRequest,
+  ConversionJobRequest,
+  ConversionJobType,
+  ConversionResult,
+  EncodingProfile,
+  ImageInput,
+  JobRequest,
+  JobResult,
+  ResponsiveJobRequest,
+  ResponsiveResult,
+  WorkerRequest,
+  WorkerResponse
+} from '@/workers/protocol';
+import { DEFAULT_PROFILE, getResponsiveHeight } from './profiles';
+
+export type {
+  ConversionDetails,
+  ConversionResult,
+  CropRect,
+  ImageInput,
+  ResponsiveResult,
+  ResponsiveVariant
+} from '@/workers/protocol';
+
+export type JobStatus = 'queued' | 'processing';
+
+export interface ConvertOptions {
+  type?: ConversionJobType;
+  profile?: EncodingProfile;
+  width?: number;
+  height?: number;
+  onStatus?: (status: JobStatus) => void;
+  signal?: AbortSignal;
+}
+
+export interface AnimateOptions {
+  profile?: EncodingProfile;
+  // Duração de cada quadro em milissegundos, na ordem das entradas
+  durations: number[];
+  // 0 repete para sempre
+  loopCount?: number;
+  onStatus?: (status: JobStatus) => void;
+  signal?: AbortSignal;
+}
+
+export interface ResponsiveExportOptions {
+  profile?: EncodingProfile;
+  // Proporção (largura/altura) de uma entrada já recortada pelo usuário
+  aspectRatio?: number;
+  onStatus?: (status: JobStatus) => void;
+  signal?: AbortSignal;
+}
+
+export type WorkerFailureReason = 'timeout' | 'crashed' | 'unresponsive' | 'terminated';
+
+export class ImageWorkerError extends Error {
+  readonly reason: WorkerFailureReason;
+
+  constructor(message: string, reason: WorkerFailureReason) {
+    super(message);
+    this.name = 'ImageWorkerError';
+    this.reason = reason;
+  }
+}
+
+export class ConversionCancelledError extends Error {
+  constructor() {
+    super('A conversão foi cancelada.');
+    this.name = 'ConversionCancelledError';
+  }
+}
+
+export type WorkerSupervisorEvent =
+  | { type: 'restarted'; reason: WorkerFailureReason; requeued: number; rejected: number }
+  | { type: 'job-failed'; reason: WorkerFailureReason; message: string };
+
+export interface ImageWorkerPoolOptions {
+  size?: number;
+  maxMemoryBytes?: number;
+  jobTimeoutMs?: number;
+  healthCheckIntervalMs?: number;
+  maxMissedHealthChecks?: number;
+  maxJobRetries?: number;
+  onEvent?: (event: WorkerSupervisorEvent) => void;
+}
+
+export interface ImageWorkerPool {
+  convert: (input: ImageInput, options?: ConvertOptions) => Promise<ConversionResult>;
+  animate: (inputs: ImageInput[], options: AnimateOptions) => Promise<ConversionResult>;
+  exportResponsive: (input: ImageInput, options?: ResponsiveExportOptions) => Promise<ResponsiveResult>;
+  resize: (size: number) => void;
+  getSize: () => number;
+  terminate: () => void;
+}
+
+interface PendingJob {
+  request: JobRequest;
+  attempts: number;
+  estimatedBytes: number;
+  transferables: Transferable[];
+  cancelled: boolean;
+  onStatus?: (status: JobStatus) => void;
+  resolve: (result: JobResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerSlot {
+  worker: Worker | null;
+  activeJob: PendingJob | null;
+  jobTimer: ReturnType<typeof setTimeout> | null;
+  restarting: boolean;
+  retired: boolean;
+  missedHealthChecks: number;
+  consecutiveRestarts: number;
+}
+
+const DEFAULT_MAX_MEMORY_BYTES = 256 * 1024 * 1024; // 256MB
+const DEFAULT_JOB_TIMEOUT_MS = 60000;
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 5000;
+const DEFAULT_MAX_MISSED_HEALTH_CHECKS = 3;
+const DEFAULT_MAX_JOB_RETRIES = 1;
+const MAX_CONSECUTIVE_RESTARTS = 3;
+const MAX_POOL_SIZE = 8;
+const RESTART_DELAY_MS = 1000;
+const WORKER_COUNT_STORAGE_KEY = 'imageConverter.workerCount';
+
+// Fotos comprimidas ocupam em média ~10x mais memória depois de decodificadas
+const DECODED_SIZE_FACTOR = 10;
+
+const FAILURE_MESSAGES: Record<WorkerFailureReason, string> = {
+  timeout: 'A conversão excedeu o tempo limite e foi cancelada.',
+  crashed: 'O processador de imagens travou durante a conversão.',
+  unresponsive: 'O processador de imagens parou de responder.',
+  terminated: 'O processador de imagens foi encerrado.'
+};
+
+function spawnWorker(): Worker {
+  return new Worker(new URL('../workers/imageWorker.ts', import.meta.url), { type: 'module' });
+}
+
+// Quantidade padrão de workers: um núcleo fica livre para a interface
+export function getDefaultPoolSize(): number {
+  const cores = navigator.hardwareConcurrency || 2;
+  return Math.max(1, Math.min(cores - 1, MAX_POOL_SIZE));
+}
+
+// Ler a quantidade de workers escolhida manualmente (null = automático)
+export function loadWorkerCountOverride(): number | null {
+  const stored = Number(localStorage.getItem(WORKER_COUNT_STORAGE_KEY));
+  return Number.isInteger(stored) && stored > 0 ? Math.min(stored, MAX_POOL_SIZE) : null;
+}
+
+// Salvar a quantidade de workers escolhida manualmente (null = automático)
+export function saveWorkerCountOverride(count: number | null): void {
+  if (count === null) {
+    localStorage.removeItem(WORKER_COUNT_STORAGE_KEY);
+  } else {
+    localStorage.setItem(WORKER_COUNT_STORAGE_KEY, String(count));
+  }
+}
+
+// Maior quadro de saída de um job; as variantes responsivas são codificadas uma por vez
+function getLargestOutputSize(request: ConversionJobRequest | ResponsiveJobRequest): [number, number] {
+  if (request.type !== 'RESPONSIVE') {
+    return [request.width || request.profile.width, request.height || request.profile.height];
+  }
+  const largest = Math.max(...request.profile.responsive.widths.map(({ width }) => width));
+  return [largest, request.aspectRatio ? largest / request.aspectRatio : getResponsiveHeight(request.profile, largest)];
+}
+
+// Estimar a memória usada por um job: entrada, imagem decodificada e canvas de saída
+function estimateJobBytes(request: JobRequest): number {
+  if (request.type === 'ANIMATE') {
+    // As entradas são decodificadas uma por vez; os quadros enquadrados ficam todos na memória
+    const frameBytes = request.profile.width * request.profile.height * 4;
+    const largestInput = Math.max(0, ...request.inputs.map(input => input instanceof ImageBitmap
+      ? input.width * input.height * 4
+      : (input instanceof Blob ? input.size : input.byteLength) * (1 + DECODED_SIZE_FACTOR)));
+    return largestInput + frameBytes * (request.inputs.length + 1);
+  }
+
+  const { input } = request;
+  const [outputWidth, outputHeight] = getLargestOutputSize(request);
+  const outputBytes = outputWidth * outputHeight * 4;
+  // O motor de reamostragem lê uma cópia dos pixels de origem e usa buffers em ponto flutuante
+  const resampleFactor = request.profile.resampleFilter === 'browser' ? 1 : 2;
+
+  if (input instanceof ImageBitmap) {
+    return input.width * input.height * 4 * resampleFactor + outputBytes * resampleFactor;
+  }
+
+  const encodedBytes = input instanceof Blob ? input.size : input.byteLength;
+  return encodedBytes * (1 + DECODED_SIZE_FACTOR * resampleFactor) + outputBytes * resampleFactor;
+}
+
+// Entradas que são movidas para o worker sem cópia (e deixam de existir aqui)
+function getTransferables(input: ImageInput): Transferable[] {
+  return input instanceof ImageBitmap || input instanceof ArrayBuffer ? [input] : [];
+}
+
+// Liberar as entradas de um job que nunca chegou a ser enviado ao worker
+function disposeInput(job: PendingJob): void {
+  const inputs = job.request.type === 'ANIMATE' ? job.request.inputs : [job.request.input];
+  inputs.forEach(input => {
+    if (input instanceof ImageBitmap) input.close();
+  });
+}
+
+// Criar o pool supervisionado de workers de conversão
+export function createImageWorkerPool(options: ImageWorkerPoolOptions = {}): ImageWorkerPool {
+  const {
+    maxMemoryBytes = DEFAULT_MAX_MEMORY_BYTES,
+    jobTimeoutMs = DEFAULT_JOB_TIMEOUT_MS,
+    healthCheckIntervalMs = DEFAULT_HEALTH_CHECK_INTERVAL_MS,
+    maxMissedHealthChecks = DEFAULT_MAX_MISSED_HEALTH_CHECKS,
+    maxJobRetries = DEFAULT_MAX_JOB_RETRIES,
+    onEvent
+  } = options;
+  // Sem prazo um worker travado no meio de um job nunca seria detectado
+  const jobTimeout = Number.isFinite(jobTimeoutMs) && jobTimeoutMs > 0 ? jobTimeoutMs : DEFAULT_JOB_TIMEOUT_MS;
+
+  const queue: PendingJob[] = [];
+  let slots: WorkerSlot[] = [];
+  let targetSize = 0;
+  let inFlightBytes = 0;
+  let nextId = 1;
+  let terminated = false;
+
+  const fail = (job: PendingJob, reason: WorkerFailureReason) => {
+    const message = FAILURE_MESSAGES[reason];
+    job.reject(new ImageWorkerError(message, reason));
+    onEvent?.({ type: 'job-failed', reason, message });
+  };
+
+  const post = (slot: WorkerSlot, request: WorkerRequest, transfer: Transferable[] = []) => {
+    slot.worker?.postMessage(request, transfer);
+  };
+
+  // Liberar o job ativo de um slot, devolvendo o orçamento de memória
+  const releaseJob = (slot: WorkerSlot): PendingJob | null => {
+    const job = slot.activeJob;
+    if (slot.jobTimer) {
+      clearTimeout(slot.jobTimer);
+      slot.jobTimer = null;
+    }
+    if (job) inFlightBytes -= job.estimatedBytes;
+    slot.activeJob = null;
+    return job;
+  };
+
+  const removeSlot = (slot: WorkerSlot) => {
+    slot.worker?.terminate();
+    slot.worker = null;
+    slots = slots.filter(s => s !== slot);
+  };
+
+  // Prazo do job ativo; renovado a cada aviso de progresso do worker
+  const armJobTimer = (slot: WorkerSlot) => {
+    if (slot.jobTimer) clearTimeout(slot.jobTimer);
+    slot.jobTimer = setTimeout(() => {
+      // O job travou o worker: rejeita sem nova tentativa e reinicia
+      const timedOut = releaseJob(slot);
+      if (timedOut && !timedOut.cancelled) fail(timedOut, 'timeout');
+      restart(slot, 'timeout');
+    }, jobTimeout);
+  };
+
+  const dispatch = () => {
+    for (const slot of slots) {
+      if (queue.length === 0) return;
+      if (!slot.worker || slot.restarting || slot.retired || slot.activeJob) continue;
+
+      // Sempre permite ao menos um job, mesmo que ele sozinho estoure o orçamento
+      const job = queue[0];
+      if (inFlightBytes > 0 && inFlightBytes + job.estimatedBytes > maxMemoryBytes) return;
+
+      queue.shift();
+      slot.activeJob = job;
+      job.attempts++;
+      inFlightBytes += job.estimatedBytes;
+      armJobTimer(slot);
+      job.onStatus?.('processing');
+      post(slot, job.request, job.transferables);
+    }
+  };
+
+  const handleMessage = (slot: WorkerSlot, event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    slot.missedHealthChecks = 0;
+    slot.consecutiveRestarts = 0;
+
+    if (response.status === 'health') {
+      return; // Health check response
+    }
+
+    if (!slot.activeJob || slot.activeJob.request.id !== response.id) return;
+
+    if (response.status === 'progress') {
+      armJobTimer(slot);
+      return;
+    }
+
+    const job = releaseJob(slot);
+
+    if (response.status === 'success') {
+      job.resolve(response.result);
+    } else if (response.status === 'cancelled') {
+      job.reject(new ConversionCancelledError());
+    } else {
+      job.reject(new Error(response.message || 'Falha ao processar a imagem.'));
+    }
+
+    if (slot.retired) removeSlot(slot);
+    dispatch();
+  };
+
+  const start = (slot: WorkerSlot) => {
+    const worker = spawnWorker();
+    worker.onmessage = (event) => handleMessage(slot, event);
+    worker.onerror = (error) => {
+      console.error('Worker error:', error);
+      restart(slot, 'crashed');
+    };
+    slot.worker = worker;
+    slot.missedHealthChecks = 0;
+  };
+
+  const restart = (slot: WorkerSlot, reason: WorkerFailureReason) => {
+    if (terminated || slot.restarting) return;
+
+    slot.restarting = true;
+    slot.consecutiveRestarts++;
+    slot.worker?.terminate();
+    slot.worker = null;
+
+    let requeued = 0;
+    let rejected = 0;
+    const giveUp = slot.consecutiveRestarts > MAX_CONSECUTIVE_RESTARTS;
+    const job = releaseJob(slot);
+
+    if (job && !job.cancelled) {
+      // Uma entrada transferida ficou com o worker encerrado: não há como repetir
+      const canRetry = job.transferables.length === 0;
+      if (!giveUp && canRetry && job.attempts <= maxJobRetries) {
+        queue.unshift(job);
+        job.onStatus?.('queued');
+        requeued++;
+      } else {
+        fail(job, reason);
+        rejected++;
+      }
+    }
+
+    // Em sequência de falhas este worker sai do pool; os jobs em espera só são
+    // rejeitados quando não sobra nenhum worker para atendê-los
+    if (giveUp) {
+      slot.retired = true;
+      if (!slots.some(other => other !== slot && !other.retired)) {
+        queue.splice(0).forEach(queued => {
+          disposeInput(queued);
+          fail(queued, reason);
+          rejected++;
+        });
+      }
+    }
+
+    if (slot.retired) {
+      removeSlot(slot);
+      dispatch();
+      return;
+    }
+
+    // Os outros workers continuam atendendo a fila enquanto este reinicia
+    dispatch();
+
+    // Backoff linear para não entrar em loop quando o worker falha ao iniciar
+    setTimeout(() => {
+      slot.restarting = false;
+      if (terminated || slot.retired) return;
+      start(slot);
+      onEvent?.({ type: 'restarted', reason, requeued, rejected });
+      dispatch();
+    }, RESTART_DELAY_MS * slot.consecutiveRestarts);
+  };
+
+  // Cancelar um job: sai da fila ou, se já está rodando, avisa o worker para
+  // abortar a busca de qualidade. O slot só é liberado quando o worker responde.
+  const cancel = (job: PendingJob) => {
+    if (job.cancelled) return;
+    job.cancelled = true;
+
+    const queuedIndex = queue.indexOf(job);
+    if (queuedIndex >= 0) {
+      queue.splice(queuedIndex, 1);
+      disposeInput(job);
+    } else {
+      const slot = slots.find(s => s.activeJob === job);
+      if (slot) post(slot, { id: nextId++, type: 'CANCEL', jobId: job.request.id });
+    }
+
+    job.reject(new ConversionCancelledError());
+  };
+
+  const resize = (size: number) => {
+    if (terminated) return;
+    targetSize = Math.max(1, Math.min(Math.round(size), MAX_POOL_SIZE));
+
+    const active = slots.filter(slot => !slot.retired);
+    for (let i = active.length; i < targetSize; i++) {
+      const slot: WorkerSlot = {
+        worker: null,
+        activeJob: null,
+        jobTimer: null,
+        restarting: false,
+        retired: false,
+        missedHealthChecks: 0,
+        consecutiveRestarts: 0
+      };
+      slots.push(slot);
+      start(slot);
+    }
+
+    // Workers ociosos saem na hora; os ocupados terminam o job atual antes
+    active.slice(targetSize).forEach(slot => {
+      slot.retired = true;
+      if (!slot.activeJob) removeSlot(slot);
+    });
+
+    dispatch();
+  };
+
+  resize(options.size ?? getDefaultPoolSize());
+
+  // Double check: every worker must keep answering health checks
+  const healthInterval = setInterval(() => {
+    slots.forEach(slot => {
+      if (!slot.worker || slot.restarting) return;
+
+      // Um job longo prende o worker em código síncrono (reamostragem, GIF
+      // grande, corte, remoção de fundo) sem responder: todo job ativo tem o
+      // prazo armado, e é ele que decide se o worker travou
+      if (slot.activeJob && slot.jobTimer) {
+        slot.missedHealthChecks = 0;
+        return;
+      }
+
+      if (slot.missedHealthChecks >= maxMissedHealthChecks) {
+        restart(slot, 'unresponsive');
+        return;
+      }
+
+      slot.missedHealthChecks++;
+      post(slot, { id: nextId++, type: 'HEALTH_CHECK' });
+    });
+  }, healthCheckIntervalMs);
+
+  // Colocar um job na fila, ligando o AbortSignal ao cancelamento
+  // O tipo do resultado acompanha o do pedido: CONVERT/ANIMATE devolvem uma
+  // imagem, RESPONSIVE devolve as variantes
+  const submit = <T extends JobResult>(
+    request: JobRequest,
+    transferables: Transferable[],
+    { onStatus, signal }: { onStatus?: (status: JobStatus) => void; signal?: AbortSignal }
+  ): Promise<T> => {
+    if (terminated) {
+      return Promise.reject(new ImageWorkerError(FAILURE_MESSAGES.terminated, 'terminated'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new ConversionCancelledError());
+    }
+    // Todos os workers saíram do pool depois de falhas seguidas
+    if (!slots.some(slot => !slot.retired)) {
+      return Promise.reject(new ImageWorkerError(FAILURE_MESSAGES.crashed, 'crashed'));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => cancel(job);
+      const job: PendingJob = {
+        request,
+        attempts: 0,
+        estimatedBytes: estimateJobBytes(request),
+        transferables,
+        cancelled: false,
+        onStatus,
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result as T);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(job);
+      onStatus?.('queued');
+      dispatch();
+    });
+  };
+
+  const convert = (input: ImageInput, convertOptions: ConvertOptions = {}): Promise<ConversionResult> => {
+    const request: ConversionJobRequest = {
+      id: nextId++,
+      type: convertOptions.type ?? 'CONVERT',
+      input,
+      profile: convertOptions.profile ?? DEFAULT_PROFILE,
+      width: convertOptions.width,
+      height: convertOptions.height
+    };
+    return submit<ConversionResult>(request, getTransferables(input), convertOptions);
+  };
+
+  const animate = (inputs: ImageInput[], animateOptions: AnimateOptions): Promise<ConversionResult> => {
+    const request: AnimationJobRequest = {
+      id: nextId++,
+      type: 'ANIMATE',
+      inputs,
+      durations: animateOptions.durations,
+      loopCount: animateOptions.loopCount ?? 0,
+      profile: animateOptions.profile ?? DEFAULT_PROFILE
+    };
+    return submit<ConversionResult>(request, inputs.flatMap(getTransferables), animateOptions);
+  };
+
+  const exportResponsive = (input: ImageInput, responsiveOptions: ResponsiveExportOptions = {}): Promise<ResponsiveResult> => {
+    const request: ResponsiveJobRequest = {
+      id: nextId++,
+      type: 'RESPONSIVE',
+      input,
+      profile: responsiveOptions.profile ?? DEFAULT_PROFILE,
+      aspectRatio: responsiveOptions.aspectRatio
+    };
+    return submit<ResponsiveResult>(request, getTransferables(input), responsiveOptions);
+  };
+
+  const terminate = () => {
+    terminated = true;
+    clearInterval(healthInterval);
+
+    const error = new ImageWorkerError(FAILURE_MESSAGES.terminated, 'terminated');
+    slots.forEach(slot => {
+      releaseJob(slot)?.reject(error);
+      slot.worker?.terminate();
+      slot.worker = null;
+    });
+    slots = [];
+    queue.splice(0).forEach(job => {
+      disposeInput(job);
+      job.reject(error);
+    });
+  };
+
+  return { convert, animate, exportResponsive, resize, getSize: () => targetSize, terminate };
+}
@@ -1,16 +1,33 @@
 // Utilitários para gerenciar o IndexedDB das imagens geradas
+import { getFormatExtension } from './formats';
 
 const DB_NAME = 'ImageConverterDB';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'generatedImages';
+// Grupos de imagens geradas juntas (variantes de uma exportação responsiva)
+const GROUP_STORE_NAME = 'imageGroups';
 
 export interface StoredImage {
   filename: string;
   blob: Blob;
+  mimeType?: string;
   timestamp: number;
   originalName?: string;
 }
 
+export interface StoredImageGroup {
+  id: string;
+  // Arquivos do grupo, salvos em generatedImages
+  filenames: string[];
+  timestamp: number;
+  originalName?: string;
+}
+
+export interface GroupImage {
+  blob: Blob;
+  filename: string;
+}
+
 // Função para abrir o IndexedDB
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
@@ -26,20 +43,25 @@ function openDB(): Promise<IDBDatabase> {
         // Criar índice por timestamp para limpeza automática
         store.createIndex('timestamp', 'timestamp', { unique: false });
       }
+      if (!db.objectStoreNames.contains(GROUP_STORE_NAME)) {
+        const groups = db.createObjectStore(GROUP_STORE_NAME, { keyPath: 'id' });
+        groups.createIndex('timestamp', 'timestamp', { unique: false });
+      }
     };
   });
 }
 
 // Gerar um nome único para o arquivo
-export function generateUniqueFilename(prefix: string = 'img'): string {
+export function generateUniqueFilename(prefix: string = 'img', extension: string = 'webp'): string {
   const timestamp = Date.now().toString(36);
   const random = Math.random().toString(36).substring(2, 7);
-  return `${prefix}-${timestamp}-${random}.webp`;
+  return `${prefix}-${timestamp}-${random}.${extension}`;
 }
 
 // Salvar uma imagem no IndexedDB
 export async function saveImageToDB(blob: Blob, filename?: string, originalName?: string): Promise<string> {
-  const finalFilename = filename || generateUniqueFilename();
+  const mimeType = blob.type || 'image/webp';
+  const finalFilename = filename || generateUniqueFilename('img', getFormatExtension(mimeType));
   
   try {
     const db = await openDB();
@@ -49,6 +71,7 @@ export async function saveImageToDB(blob: Blob, filename?: string, originalName?
     const imageData: StoredImage = {
       filename: finalFilename,
       blob,
+      mimeType,
       timestamp: Date.now(),
       originalName
     };
@@ -65,6 +88,63 @@ export async function saveImageToDB(blob: Blob, filename?: string, originalName?
   }
 }
 
+// Salvar as imagens de um grupo e o registro do grupo numa só transação
+export async function saveImageGroupToDB(images: GroupImage[], originalName?: string): Promise<string> {
+  const timestamp = Date.now();
+  const group: StoredImageGroup = {
+    id: `group-${timestamp.toString(36)}-${Math.random().toString(36).substring(2, 7)}`,
+    filenames: images.map(image => image.filename),
+    timestamp,
+    originalName
+  };
+
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([STORE_NAME, GROUP_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+
+    images.forEach(({ blob, filename }) => {
+      const imageData: StoredImage = {
+        filename,
+        blob,
+        mimeType: blob.type || 'image/webp',
+        timestamp,
+        originalName
+      };
+      store.put(imageData);
+    });
+    transaction.objectStore(GROUP_STORE_NAME).put(group);
+
+    return new Promise((resolve, reject) => {
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(group.id);
+    });
+  } catch (error) {
+    console.error('Erro ao salvar grupo de imagens no IndexedDB:', error);
+    throw error;
+  }
+}
+
+// Buscar o registro de um grupo do IndexedDB
+export async function getImageGroupFromDB(id: string): Promise<StoredImageGroup | null> {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([GROUP_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(GROUP_STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result ?? null);
+    });
+  } catch (error) {
+    console.error('Erro ao buscar grupo de imagens no IndexedDB:', error);
+    return null;
+  }
+}
+
 // Buscar uma imagem do IndexedDB
 export async function getImageFromDB(filename: string): Promise<Blob | null> {
   try {
@@ -87,16 +167,26 @@ export async function getImageFromDB(filename: string): Promise<Blob | null> {
   }
 }
 
-// Limpar imagens antigas (mais de 24 horas)
+// Limpar imagens antigas (mais de 24 horas), junto com os grupos delas
 export async function cleanupOldImages(): Promise<number> {
   try {
     const db = await openDB();
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const transaction = db.transaction([STORE_NAME, GROUP_STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
     const index = store.index('timestamp');
     
     const oneDayAgo = Date.now() - (24 * 60 * 60 * 1000);
     const range = IDBKeyRange.upperBound(oneDayAgo);
+
+    // Os grupos têm o mesmo timestamp das suas imagens
+    const groupCursor = transaction.objectStore(GROUP_STORE_NAME).index('timestamp').openCursor(range);
+    groupCursor.onsuccess = () => {
+      const cursor = groupCursor.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
     
     return new Promise((resolve, reject) => {
       let deletedCount = 0;
@@ -0,0 +1,594 @@
+// Leitura de metadados (EXIF, XMP e perfil ICC) de JPEG, PNG, WebP e HEIF.
+// Roda tanto na UI quanto no worker: só depende de ArrayBuffer e DataView.
+
+export type ContainerFormat = 'jpeg' | 'png' | 'webp' | 'heif';
+
+export interface GpsCoordinates {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+}
+
+export interface ImageMetadata {
+  format: ContainerFormat | null;
+  // Dimensões gravadas no arquivo, antes de aplicar a orientação
+  width?: number;
+  height?: number;
+  // Orientação EXIF (1 a 8); 1 quando ausente
+  orientation: number;
+  // Rotação do HEIF (irot), em graus anti-horários; aplicada pelo próprio decodificador
+  rotation?: number;
+  make?: string;
+  model?: string;
+  lens?: string;
+  software?: string;
+  dateTaken?: string;
+  author?: string;
+  copyright?: string;
+  colorProfile?: string;
+  gps?: GpsCoordinates;
+  hasExif: boolean;
+  hasXmp: boolean;
+}
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1', 'avif', 'avis'];
+
+const textDecoder = new TextDecoder();
+const strictUtf8Decoder = new TextDecoder('utf-8', { fatal: true });
+const latin1Decoder = new TextDecoder('latin1');
+
+// Textos EXIF deveriam ser ASCII, mas na prática vêm em UTF-8 ou Latin-1
+const decodeExifText = (bytes: Uint8Array) => {
+  try {
+    return strictUtf8Decoder.decode(bytes);
+  } catch {
+    return latin1Decoder.decode(bytes);
+  }
+};
+
+const unescapeXml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const startsWith = (bytes: Uint8Array, text: string, offset = 0) => {
+  if (bytes.length < offset + text.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+// Identificar o contêiner pelos primeiros bytes
+export function detectContainer(bytes: Uint8Array): ContainerFormat | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (startsWith(bytes, '\x89PNG\r\n\x1a\n')) return 'png';
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WEBP', 8)) return 'webp';
+  if (startsWith(bytes, 'ftyp', 4) && HEIF_BRANDS.includes(fourCC(bytes, 8))) return 'heif';
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// TIFF/EXIF
+
+type TiffValue = string | number[];
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  lensModel: 0xa434,
+  colorSpace: 0xa001
+};
+
+// Ler um IFD inteiro como mapa tag -> valor
+const readIfd = (view: DataView, offset: number, little: boolean): Map<number, TiffValue> => {
+  const entries = new Map<number, TiffValue>();
+  const count = view.getUint16(offset, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    const total = size * valueCount;
+    const valueOffset = total <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    if (valueOffset + total > view.byteLength) continue;
+
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + valueOffset, total);
+      entries.set(tag, decodeExifText(bytes).replace(/\0+$/, '').trim());
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let v = 0; v < Math.min(valueCount, 64); v++) {
+      const at = valueOffset + v * size;
+      switch (type) {
+        case 3: values.push(view.getUint16(at, little)); break;
+        case 4: values.push(view.getUint32(at, little)); break;
+        case 9: values.push(view.getInt32(at, little)); break;
+        case 5: values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1)); break;
+        case 10: values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1)); break;
+        default: values.push(view.getUint8(at));
+      }
+    }
+    entries.set(tag, values);
+  }
+  return entries;
+};
+
+const asString = (value: TiffValue | undefined) =>
+  typeof value === 'string' && value ? value : undefined;
+
+const asNumber = (value: TiffValue | undefined) =>
+  Array.isArray(value) && value.length > 0 ? value[0] : undefined;
+
+const dmsToDecimal = (dms: number[], ref: string | undefined) => {
+  const [degrees = 0, minutes = 0, seconds = 0] = dms;
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  return ref === 'S' || ref === 'W' ? -decimal : decimal;
+};
+
+// "2024:05:01 13:45:10" -> "2024-05-01 13:45:10"
+const formatExifDate = (value: string | undefined) =>
+  value?.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3');
+
+const readTiff = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  if (bytes.length < 8) return;
+  const view = viewOf(bytes);
+  const byteOrder = view.getUint16(0);
+  const little = byteOrder === 0x4949;
+  if ((!little && byteOrder !== 0x4d4d) || view.getUint16(2, little) !== 42) return;
+
+  const ifd0 = readIfd(view, view.getUint32(4, little), little);
+  metadata.hasExif = true;
+  metadata.make = asString(ifd0.get(TAG.make)) ?? metadata.make;
+  metadata.model = asString(ifd0.get(TAG.model)) ?? metadata.model;
+  metadata.software = asString(ifd0.get(TAG.software)) ?? metadata.software;
+  metadata.author = asString(ifd0.get(TAG.artist)) ?? metadata.author;
+  metadata.copyright = asString(ifd0.get(TAG.copyright)) ?? metadata.copyright;
+
+  const orientation = asNumber(ifd0.get(TAG.orientation));
+  if (orientation !== undefined && orientation >= 1 && orientation <= 8) {
+    metadata.orientation = orientation;
+  }
+
+  let date = asString(ifd0.get(TAG.dateTime));
+  const exifPointer = asNumber(ifd0.get(TAG.exifIfd));
+  if (exifPointer !== undefined && exifPointer < bytes.length) {
+    const exif = readIfd(view, exifPointer, little);
+    date = asString(exif.get(TAG.dateTimeOriginal)) ?? date;
+    metadata.lens = asString(exif.get(TAG.lensModel)) ?? metadata.lens;
+    if (!metadata.colorProfile && asNumber(exif.get(TAG.colorSpace)) === 1) {
+      metadata.colorProfile = 'sRGB';
+    }
+  }
+  metadata.dateTaken = formatExifDate(date) ?? metadata.dateTaken;
+
+  const gpsPointer = asNumber(ifd0.get(TAG.gpsIfd));
+  if (gpsPointer !== undefined && gpsPointer < bytes.length) {
+    const gps = readIfd(view, gpsPointer, little);
+    const latitude = gps.get(2);
+    const longitude = gps.get(4);
+    if (Array.isArray(latitude) && Array.isArray(longitude)) {
+      const altitude = asNumber(gps.get(6));
+      const belowSeaLevel = asNumber(gps.get(5)) === 1;
+      metadata.gps = {
+        latitude: dmsToDecimal(latitude, asString(gps.get(1))),
+        longitude: dmsToDecimal(longitude, asString(gps.get(3))),
+        altitude: altitude === undefined ? undefined : belowSeaLevel ? -altitude : altitude
+      };
+    }
+  }
+};
+
+// ---------------------------------------------------------------------------
+// XMP
+
+const xmpValue = (xmp: string, name: string): string | undefined => {
+  const attribute = new RegExp(`${name}="([^"]*)"`).exec(xmp);
+  if (attribute) return unescapeXml(attribute[1]).trim() || undefined;
+
+  const element = new RegExp(`<${name}[^>]*>([\\s\\S]*?)</${name}>`).exec(xmp);
+  if (!element) return undefined;
+  // Valores em rdf:Alt/rdf:Seq: usa o primeiro item
+  const item = /<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/.exec(element[1]);
+  return unescapeXml(item ? item[1] : element[1]).trim() || undefined;
+};
+
+// Coordenadas XMP no formato "41,24.5N" ou "41,24,30N"
+const parseXmpCoordinate = (value: string | undefined): number | undefined => {
+  const match = value && /^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/.exec(value.trim());
+  if (!match) return undefined;
+  return dmsToDecimal([Number(match[1]), Number(match[2]), Number(match[3] ?? 0)], match[4]);
+};
+
+const readXmp = (xmp: string, metadata: ImageMetadata) => {
+  metadata.hasXmp = true;
+  // EXIF tem prioridade; o XMP só preenche o que faltar
+  metadata.make ??= xmpValue(xmp, 'tiff:Make');
+  metadata.model ??= xmpValue(xmp, 'tiff:Model');
+  metadata.software ??= xmpValue(xmp, 'xmp:CreatorTool');
+  metadata.author ??= xmpValue(xmp, 'dc:creator');
+  metadata.copyright ??= xmpValue(xmp, 'dc:rights');
+  metadata.dateTaken ??= (xmpValue(xmp, 'exif:DateTimeOriginal') ?? xmpValue(xmp, 'xmp:CreateDate'))
+    ?.replace('T', ' ');
+
+  if (metadata.orientation === 1) {
+    const orientation = Number(xmpValue(xmp, 'tiff:Orientation'));
+    if (orientation >= 1 && orientation <= 8) metadata.orientation = orientation;
+  }
+  if (!metadata.gps) {
+    const latitude = parseXmpCoordinate(xmpValue(xmp, 'exif:GPSLatitude'));
+    const longitude = parseXmpCoordinate(xmpValue(xmp, 'exif:GPSLongitude'));
+    if (latitude !== undefined && longitude !== undefined) {
+      metadata.gps = { latitude, longitude };
+    }
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Perfil ICC: só a descrição (tag 'desc')
+
+const readIccDescription = (icc: Uint8Array): string | undefined => {
+  if (icc.length < 132) return undefined;
+  const view = viewOf(icc);
+  const tagCount = view.getUint32(128);
+
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > icc.length) break;
+    if (fourCC(icc, entry) !== 'desc') continue;
+
+    const offset = view.getUint32(entry + 4);
+    if (offset + 12 > icc.length) return undefined;
+    const type = fourCC(icc, offset);
+
+    if (type === 'desc') {
+      const length = view.getUint32(offset + 8);
+      return latin1Decoder.decode(icc.subarray(offset + 12, offset + 12 + length)).replace(/\0+$/, '').trim() || undefined;
+    }
+    if (type === 'mluc' && view.getUint32(offset + 8) > 0) {
+      // Primeiro registro de idioma, em UTF-16BE
+      const length = view.getUint32(offset + 20);
+      const start = offset + view.getUint32(offset + 24);
+      let text = '';
+      for (let c = start; c + 1 < Math.min(icc.length, start + length); c += 2) {
+        text += String.fromCharCode(view.getUint16(c));
+      }
+      return text.replace(/\0+$/, '').trim() || undefined;
+    }
+  }
+  return undefined;
+};
+
+// ---------------------------------------------------------------------------
+// Contêineres
+
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+const readJpeg = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const view = viewOf(bytes);
+  const iccChunks: { sequence: number; data: Uint8Array }[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Fim da imagem ou início dos dados comprimidos: não há mais metadados
+    if (marker === 0xd9 || marker === 0xda) break;
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+
+    const length = view.getUint16(offset + 2);
+    const data = bytes.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe1 && startsWith(data, 'Exif\0\0')) {
+      readTiff(data.subarray(6), metadata);
+    } else if (marker === 0xe1 && startsWith(data, XMP_JPEG_HEADER)) {
+      readXmp(textDecoder.decode(data.subarray(XMP_JPEG_HEADER.length)), metadata);
+    } else if (marker === 0xe2 && startsWith(data, 'ICC_PROFILE\0')) {
+      iccChunks.push({ sequence: data[12], data: data.subarray(14) });
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      metadata.height = view.getUint16(offset + 5);
+      metadata.width = view.getUint16(offset + 7);
+    }
+    offset += 2 + length;
+  }
+
+  // O perfil ICC pode vir dividido em vários segmentos APP2
+  if (iccChunks.length > 0) {
+    iccChunks.sort((a, b) => a.sequence - b.sequence);
+    const icc = new Uint8Array(iccChunks.reduce((sum, chunk) => sum + chunk.data.length, 0));
+    let position = 0;
+    for (const chunk of iccChunks) {
+      icc.set(chunk.data, position);
+      position += chunk.data.length;
+    }
+    metadata.colorProfile = readIccDescription(icc) ?? 'ICC incorporado';
+  }
+};
+
+const readPng = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const view = viewOf(bytes);
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      metadata.width = view.getUint32(offset + 8);
+      metadata.height = view.getUint32(offset + 12);
+    } else if (type === 'eXIf') {
+      readTiff(data, metadata);
+    } else if (type === 'iTXt' && startsWith(data, 'XML:com.adobe.xmp\0')) {
+      // palavra-chave\0, flag de compressão, método, idioma\0, tradução\0, texto
+      const compressed = data[18] === 1;
+      let position = 20;
+      for (let nulls = 0; nulls < 2 && position < data.length; position++) {
+        if (data[position] === 0) nulls++;
+      }
+      if (!compressed) {
+        readXmp(textDecoder.decode(data.subarray(position)), metadata);
+      } else {
+        metadata.hasXmp = true;
+      }
+    } else if (type === 'iCCP') {
+      // O perfil vem comprimido; o nome que o acompanha basta para exibição
+      const nameEnd = data.indexOf(0);
+      metadata.colorProfile = latin1Decoder.decode(data.subarray(0, nameEnd > 0 ? nameEnd : 0)) || 'ICC incorporado';
+    } else if (type === 'sRGB') {
+      metadata.colorProfile ??= 'sRGB';
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+};
+
+const readWebp = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const view = viewOf(bytes);
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = fourCC(bytes, offset);
+    const length = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+    const data = bytes.subarray(start, start + length);
+
+    if (type === 'VP8X' && length >= 10) {
+      metadata.width = 1 + (data[4] | (data[5] << 8) | (data[6] << 16));
+      metadata.height = 1 + (data[7] | (data[8] << 8) | (data[9] << 16));
+    } else if (type === 'VP8 ' && length >= 10 && metadata.width === undefined) {
+      metadata.width = view.getUint16(start + 6, true) & 0x3fff;
+      metadata.height = view.getUint16(start + 8, true) & 0x3fff;
+    } else if (type === 'VP8L' && length >= 5 && metadata.width === undefined) {
+      metadata.width = 1 + (data[1] | ((data[2] & 0x3f) << 8));
+      metadata.height = 1 + ((data[2] >> 6) | (data[3] << 2) | ((data[4] & 0x0f) << 10));
+    } else if (type === 'EXIF') {
+      readTiff(startsWith(data, 'Exif\0\0') ? data.subarray(6) : data, metadata);
+    } else if (type === 'XMP ') {
+      readXmp(textDecoder.decode(data), metadata);
+    } else if (type === 'ICCP') {
+      metadata.colorProfile = readIccDescription(data) ?? 'ICC incorporado';
+    }
+    // Chunks têm tamanho par; um byte de preenchimento segue os ímpares
+    offset = start + length + (length % 2);
+  }
+};
+
+// ISO BMFF: caixas com tamanho de 32 bits, 64 bits (size 1) ou até o fim (size 0)
+interface Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+const readBoxes = (bytes: Uint8Array, start: number, end: number): Box[] => {
+  const view = viewOf(bytes);
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+    boxes.push({ type, start: offset + header, end: Math.min(end, offset + size) });
+    offset += size;
+  }
+  return boxes;
+};
+
+const readSizedUint = (view: DataView, offset: number, size: number) => {
+  switch (size) {
+    case 0: return 0;
+    case 2: return view.getUint16(offset);
+    case 4: return view.getUint32(offset);
+    case 8: return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+    default: throw new Error(`Tamanho de campo inválido no iloc: ${size}`);
+  }
+};
+
+// Localização de cada item no arquivo (só extents por deslocamento no arquivo)
+const readItemLocations = (bytes: Uint8Array, box: Box) => {
+  const view = viewOf(bytes);
+  const locations = new Map<number, { offset: number; length: number }>();
+  const version = bytes[box.start];
+  let offset = box.start + 4;
+
+  const offsetSize = bytes[offset] >> 4;
+  const lengthSize = bytes[offset] & 0x0f;
+  const baseOffsetSize = bytes[offset + 1] >> 4;
+  const indexSize = version === 1 || version === 2 ? bytes[offset + 1] & 0x0f : 0;
+  offset += 2;
+
+  const itemCount = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+  offset += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount && offset < box.end; i++) {
+    const itemId = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += version < 2 ? 2 : 4;
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(offset) & 0x0f;
+      offset += 2;
+    }
+    offset += 2; // data_reference_index
+    const baseOffset = readSizedUint(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = view.getUint16(offset);
+    offset += 2;
+
+    for (let e = 0; e < extentCount; e++) {
+      offset += indexSize;
+      const extentOffset = readSizedUint(view, offset, offsetSize);
+      offset += offsetSize;
+      const extentLength = readSizedUint(view, offset, lengthSize);
+      offset += lengthSize;
+      if (e === 0 && constructionMethod === 0) {
+        locations.set(itemId, { offset: baseOffset + extentOffset, length: extentLength });
+      }
+    }
+  }
+  return locations;
+};
+
+const NCLX_PRIMARIES: Record<number, string> = {
+  1: 'sRGB / BT.709',
+  9: 'BT.2020',
+  12: 'Display P3'
+};
+
+const readHeif = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const view = viewOf(bytes);
+  const meta = readBoxes(bytes, 0, bytes.length).find(box => box.type === 'meta');
+  if (!meta) return;
+
+  // 'meta' é uma full box: 4 bytes de versão e flags antes dos filhos
+  const children = readBoxes(bytes, meta.start + 4, meta.end);
+  const itemTypes = new Map<number, { type: string; contentType?: string }>();
+
+  const iinf = children.find(box => box.type === 'iinf');
+  if (iinf) {
+    const entriesStart = iinf.start + 4 + (bytes[iinf.start] === 0 ? 2 : 4);
+    for (const infe of readBoxes(bytes, entriesStart, iinf.end)) {
+      const version = bytes[infe.start];
+      if (infe.type !== 'infe' || version < 2) continue;
+      let offset = infe.start + 4;
+      const itemId = version === 2 ? view.getUint16(offset) : view.getUint32(offset);
+      offset += (version === 2 ? 2 : 4) + 2;
+      const type = fourCC(bytes, offset);
+      offset += 4;
+      let contentType: string | undefined;
+      if (type === 'mime') {
+        const nameEnd = bytes.indexOf(0, offset);
+        const typeEnd = bytes.indexOf(0, nameEnd + 1);
+        contentType = latin1Decoder.decode(bytes.subarray(nameEnd + 1, typeEnd > nameEnd ? typeEnd : infe.end));
+      }
+      itemTypes.set(itemId, { type, contentType });
+    }
+  }
+
+  const iloc = children.find(box => box.type === 'iloc');
+  const locations = iloc ? readItemLocations(bytes, iloc) : new Map<number, { offset: number; length: number }>();
+
+  for (const [itemId, item] of itemTypes) {
+    const location = locations.get(itemId);
+    if (!location || location.offset + location.length > bytes.length) continue;
+    const data = bytes.subarray(location.offset, location.offset + location.length);
+
+    if (item.type === 'Exif' && data.length > 4) {
+      // Os primeiros 4 bytes indicam onde começa o cabeçalho TIFF
+      readTiff(data.subarray(4 + viewOf(data).getUint32(0)), metadata);
+    } else if (item.type === 'mime' && item.contentType === 'application/rdf+xml') {
+      readXmp(textDecoder.decode(data), metadata);
+    }
+  }
+
+  const iprp = children.find(box => box.type === 'iprp');
+  const ipco = iprp && readBoxes(bytes, iprp.start, iprp.end).find(box => box.type === 'ipco');
+  if (!ipco) return;
+
+  for (const property of readBoxes(bytes, ipco.start, ipco.end)) {
+    if (property.type === 'ispe') {
+      // Miniaturas também têm ispe; a imagem principal é a maior
+      const width = view.getUint32(property.start + 4);
+      const height = view.getUint32(property.start + 8);
+      if (width * height > (metadata.width ?? 0) * (metadata.height ?? 0)) {
+        metadata.width = width;
+        metadata.height = height;
+      }
+    } else if (property.type === 'colr' && !metadata.colorProfile) {
+      const colourType = fourCC(bytes, property.start);
+      if (colourType === 'prof' || colourType === 'rICC') {
+        metadata.colorProfile = readIccDescription(bytes.subarray(property.start + 4, property.end)) ?? 'ICC incorporado';
+      } else if (colourType === 'nclx') {
+        const primaries = view.getUint16(property.start + 4);
+        metadata.colorProfile = NCLX_PRIMARIES[primaries] ?? `nclx (primárias ${primaries})`;
+      }
+    } else if (property.type === 'irot') {
+      metadata.rotation = (bytes[property.start] & 0x03) * 90;
+    }
+  }
+};
+
+// Bytes do início do arquivo lidos para os metadados na interface: cobrem o
+// EXIF/XMP do JPEG e os chunks antes dos pixels do PNG e do WebP sem carregar a
+// imagem inteira na thread principal. Um bloco gravado depois dos pixels fica
+// de fora, e a leitura devolve o que encontrou até ali.
+export const METADATA_HEADER_BYTES = 256 * 1024;
+
+// Ler os metadados de um arquivo de imagem. Falhas de leitura nunca impedem a
+// conversão: devolvemos o que foi possível extrair até o erro.
+export function readImageMetadata(buffer: ArrayBuffer): ImageMetadata {
+  const bytes = new Uint8Array(buffer);
+  const format = detectContainer(bytes);
+  const metadata: ImageMetadata = { format, orientation: 1, hasExif: false, hasXmp: false };
+
+  try {
+    switch (format) {
+      case 'jpeg': readJpeg(bytes, metadata); break;
+      case 'png': readPng(bytes, metadata); break;
+      case 'webp': readWebp(bytes, metadata); break;
+      case 'heif': readHeif(bytes, metadata); break;
+    }
+  } catch (error) {
+    console.warn('Metadados incompletos ou corrompidos:', error);
+  }
+  return metadata;
+}
+
+// Orientações 5 a 8 trocam largura e altura
+export function isTransposedOrientation(orientation: number): boolean {
+  return orientation >= 5 && orientation <= 8;
+}
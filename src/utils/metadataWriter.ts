@@ -0,0 +1,328 @@
+// Escrita de metadados em arquivos já codificados: o canvas descarta tudo, então
+// os blocos EXIF e XMP são inseridos no contêiner (JPEG, PNG ou WebP) depois da codificação.
+import type { MetadataTemplate, OutputFormat } from '@/workers/protocol';
+import { detectContainer, readImageMetadata } from './metadata';
+
+export type ExifValue = string | number;
+
+// Tags do IFD0 que sabemos escrever: números viram SHORT e textos viram ASCII
+export interface ExifEntry {
+  tag: number;
+  value: ExifValue;
+}
+
+const textEncoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const EXIF_SYMBOLS: Record<string, string> = { '©': '(c)', '®': '(r)', '™': '(tm)', '–': '-', '—': '-' };
+
+// Os textos do EXIF são ASCII (tipo 2), sem UTF-8: os acentos são removidos
+// ("João" vira "Joao"), símbolos comuns viram texto e o resto fora do ASCII é
+// descartado. O valor completo, em Unicode, vai no XMP.
+export const toExifAscii = (text: string): string =>
+  text
+    .replace(/[©®™–—]/g, symbol => EXIF_SYMBOLS[symbol])
+    .normalize('NFD')
+    .replace(/[^ -~\t\n]/g, '');
+
+// Montar um bloco TIFF (big-endian) com um único IFD
+export function buildExif(entries: ExifEntry[]): Uint8Array {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const ifdSize = 2 + sorted.length * 12 + 4;
+  const values = sorted.map(({ value }) =>
+    typeof value === 'number' ? null : concat([ascii(toExifAscii(value)), new Uint8Array(1)])
+  );
+  const dataSize = values.reduce((sum, value) => sum + (value && value.length > 4 ? value.length + (value.length % 2) : 0), 0);
+
+  const tiff = new Uint8Array(8 + ifdSize + dataSize);
+  const view = new DataView(tiff.buffer);
+  tiff.set(ascii('MM'));
+  view.setUint16(2, 42);
+  view.setUint32(4, 8);
+  view.setUint16(8, sorted.length);
+
+  let dataOffset = 8 + ifdSize;
+  sorted.forEach(({ tag, value }, i) => {
+    const entry = 10 + i * 12;
+    view.setUint16(entry, tag);
+    const text = values[i];
+    if (text === null) {
+      view.setUint16(entry + 2, 3);
+      view.setUint32(entry + 4, 1);
+      view.setUint16(entry + 8, value as number);
+      return;
+    }
+    view.setUint16(entry + 2, 2);
+    view.setUint32(entry + 4, text.length);
+    if (text.length <= 4) {
+      tiff.set(text, entry + 8);
+    } else {
+      view.setUint32(entry + 8, dataOffset);
+      tiff.set(text, dataOffset);
+      dataOffset += text.length + (text.length % 2);
+    }
+  });
+  // Offset do próximo IFD (nenhum) já é zero
+  return tiff;
+}
+
+// ---------------------------------------------------------------------------
+// XMP
+
+export interface XmpFields {
+  creator?: string;
+  rights?: string;
+  source?: string;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Pacote XMP mínimo com os campos Dublin Core preenchidos
+export function buildXmpPacket(fields: XmpFields): string {
+  const properties = [
+    fields.creator && `<dc:creator><rdf:Seq><rdf:li>${escapeXml(fields.creator)}</rdf:li></rdf:Seq></dc:creator>`,
+    fields.rights && `<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(fields.rights)}</rdf:li></rdf:Alt></dc:rights>`,
+    fields.source && `<dc:source>${escapeXml(fields.source)}</dc:source>`
+  ].filter(Boolean);
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    ...properties,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>'
+  ].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// PNG: chunks com CRC-32
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export function buildPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(ascii(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// Inserir chunks logo depois do IHDR, antes dos dados da imagem
+const insertPngChunks = (bytes: Uint8Array, chunks: Uint8Array[]): Uint8Array => {
+  const ihdrEnd = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  return concat([bytes.subarray(0, ihdrEnd), ...chunks, bytes.subarray(ihdrEnd)]);
+};
+
+// ---------------------------------------------------------------------------
+// JPEG: segmentos APPn
+
+export function buildJpegSegment(marker: number, data: Uint8Array): Uint8Array {
+  if (data.length + 2 > 0xffff) {
+    throw new Error('Metadados grandes demais para um segmento JPEG.');
+  }
+  const segment = new Uint8Array(4 + data.length);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  new DataView(segment.buffer).setUint16(2, data.length + 2);
+  segment.set(data, 4);
+  return segment;
+}
+
+// Inserir segmentos depois do SOI e do APP0 (JFIF), que precisa ser o primeiro
+const insertJpegSegments = (bytes: Uint8Array, segments: Uint8Array[]): Uint8Array => {
+  let offset = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    offset += 2 + new DataView(bytes.buffer, bytes.byteOffset).getUint16(4);
+  }
+  return concat([bytes.subarray(0, offset), ...segments, bytes.subarray(offset)]);
+};
+
+// ---------------------------------------------------------------------------
+// WebP: contêiner RIFF estendido (VP8X)
+
+export const VP8X_FLAGS = { icc: 0x20, alpha: 0x10, exif: 0x08, xmp: 0x04, animation: 0x02 };
+
+export function buildRiffChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(ascii(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+export interface RiffChunk {
+  type: string;
+  bytes: Uint8Array;
+}
+
+export const splitRiffChunks = (bytes: Uint8Array): RiffChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset + 4, true);
+    const end = Math.min(bytes.length, offset + 8 + length + (length % 2));
+    chunks.push({ type: String.fromCharCode(...bytes.subarray(offset, offset + 4)), bytes: bytes.subarray(offset, end) });
+    offset = end;
+  }
+  return chunks;
+};
+
+// Montar o arquivo RIFF/WEBP em volta dos chunks já codificados
+export function buildWebpFile(chunks: Uint8Array[]): Uint8Array {
+  const content = concat(chunks);
+  const riff = new Uint8Array(12 + content.length);
+  riff.set(ascii('RIFF'));
+  new DataView(riff.buffer).setUint32(4, 4 + content.length, true);
+  riff.set(ascii('WEBP'), 8);
+  riff.set(content, 12);
+  return riff;
+}
+
+// Reescrever o WebP como VP8X com os chunks de metadados no fim, na ordem da especificação
+const rewriteWebp = (bytes: Uint8Array, metadataChunks: { type: 'EXIF' | 'XMP '; data: Uint8Array }[]): Uint8Array => {
+  const chunks = splitRiffChunks(bytes).filter(chunk => !metadataChunks.some(meta => meta.type === chunk.type));
+  const existingHeader = chunks.find(chunk => chunk.type === 'VP8X');
+  const body = chunks.filter(chunk => chunk.type !== 'VP8X');
+
+  const header = new Uint8Array(10);
+  if (existingHeader) {
+    header.set(existingHeader.bytes.subarray(8, 18));
+  } else {
+    // WebP simples: o tamanho vem do quadro e o alfa do cabeçalho VP8L
+    const { width = 1, height = 1 } = readImageMetadata(bytes.slice().buffer);
+    header[4] = (width - 1) & 0xff;
+    header[5] = ((width - 1) >> 8) & 0xff;
+    header[6] = ((width - 1) >> 16) & 0xff;
+    header[7] = (height - 1) & 0xff;
+    header[8] = ((height - 1) >> 8) & 0xff;
+    header[9] = ((height - 1) >> 16) & 0xff;
+    const lossless = body.find(chunk => chunk.type === 'VP8L');
+    if (lossless && lossless.bytes[12] & 0x10) {
+      header[0] |= VP8X_FLAGS.alpha;
+    }
+  }
+  if (body.some(chunk => chunk.type === 'ALPH')) header[0] |= VP8X_FLAGS.alpha;
+  for (const meta of metadataChunks) {
+    header[0] |= meta.type === 'EXIF' ? VP8X_FLAGS.exif : VP8X_FLAGS.xmp;
+  }
+
+  // EXIF antes de XMP, ambos depois dos dados da imagem
+  const ordered = [...metadataChunks].sort((a, b) => (a.type === 'EXIF' ? -1 : 1) - (b.type === 'EXIF' ? -1 : 1));
+  return buildWebpFile([
+    buildRiffChunk('VP8X', header),
+    ...body.map(chunk => chunk.bytes),
+    ...ordered.map(meta => buildRiffChunk(meta.type, meta.data))
+  ]);
+};
+
+export interface MetadataBlocks {
+  // Bloco TIFF (sem o prefixo "Exif\0\0")
+  exif?: Uint8Array;
+  xmp?: string;
+}
+
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+
+// Bytes acrescentados ao arquivo, com folga para os cabeçalhos de cada contêiner
+export function estimateMetadataOverhead(blocks: MetadataBlocks): number {
+  const xmpBytes = blocks.xmp ? textEncoder.encode(blocks.xmp).length : 0;
+  return (blocks.exif?.length ?? 0) + xmpBytes + 64;
+}
+
+// Incorporar blocos EXIF e XMP em um JPEG, PNG ou WebP
+export function embedMetadata(bytes: Uint8Array, blocks: MetadataBlocks): Uint8Array {
+  const { exif } = blocks;
+  const xmp = blocks.xmp ? textEncoder.encode(blocks.xmp) : undefined;
+  if (!exif && !xmp) return bytes;
+
+  switch (detectContainer(bytes)) {
+    case 'jpeg':
+      return insertJpegSegments(bytes, [
+        ...(exif ? [buildJpegSegment(0xe1, concat([ascii('Exif\0\0'), exif]))] : []),
+        ...(xmp ? [buildJpegSegment(0xe1, concat([ascii(XMP_JPEG_HEADER), xmp]))] : [])
+      ]);
+    case 'png':
+      return insertPngChunks(bytes, [
+        ...(exif ? [buildPngChunk('eXIf', exif)] : []),
+        // iTXt sem compressão: palavra-chave\0, flag, método, idioma\0, tradução\0, texto
+        ...(xmp ? [buildPngChunk('iTXt', concat([ascii(`${XMP_PNG_KEYWORD}\0\0\0\0\0`), xmp]))] : [])
+      ]);
+    case 'webp':
+      return rewriteWebp(bytes, [
+        ...(exif ? [{ type: 'EXIF' as const, data: exif }] : []),
+        ...(xmp ? [{ type: 'XMP ' as const, data: xmp }] : [])
+      ]);
+    default:
+      throw new Error('Formato sem suporte à escrita de metadados.');
+  }
+}
+
+const TEMPLATE_TAGS = { artist: 0x013b, copyright: 0x8298 };
+
+// Formatos cujo contêiner sabemos reescrever (AVIF exigiria editar caixas ISO BMFF)
+export function supportsMetadataEmbedding(format: OutputFormat): boolean {
+  return format === 'image/jpeg' || format === 'image/png' || format === 'image/webp';
+}
+
+// Montar os blocos EXIF/XMP de um modelo de perfil; null quando está vazio
+export function buildTemplateMetadata(template: MetadataTemplate, date = new Date()): MetadataBlocks | null {
+  const fill = (value: string) => value.replace(/\{year\}/g, String(date.getFullYear())).trim();
+  const author = fill(template.author);
+  const copyright = fill(template.copyright);
+  const sourceUrl = fill(template.sourceUrl);
+  if (!author && !copyright && !sourceUrl) return null;
+
+  // EXIF não tem campo para a URL de origem; ela vai só no XMP (dc:source).
+  // Um texto sem nada representável em ASCII também fica só no XMP.
+  const entries: ExifEntry[] = [];
+  if (toExifAscii(author).trim()) entries.push({ tag: TEMPLATE_TAGS.artist, value: author });
+  if (toExifAscii(copyright).trim()) entries.push({ tag: TEMPLATE_TAGS.copyright, value: copyright });
+
+  return {
+    exif: entries.length > 0 ? buildExif(entries) : undefined,
+    xmp: buildXmpPacket({ creator: author, rights: copyright, source: sourceUrl })
+  };
+}
+
+// Incorporar só um bloco EXIF (TIFF) em um JPEG, PNG ou WebP
+export function embedExif(bytes: Uint8Array, exif: Uint8Array): Uint8Array {
+  return embedMetadata(bytes, { exif });
+}
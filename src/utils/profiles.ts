@@ -0,0 +1,346 @@
+// Perfis de codificação: tamanho de saída, orçamento em KB, formato e enquadramento
+import type { EncodingProfile, FitMode, OutputFormat, QualityTarget, ResampleFilter, TrimOptions } from '@/workers/protocol';
+import { getFormatLabel } from './formats';
+import { MAX_FEATHER } from './background';
+
+export type {
+  BackgroundOptions,
+  ComplianceRules,
+  EncodingProfile,
+  FitMode,
+  MetadataTemplate,
+  OutputFormat,
+  QualityTarget,
+  ResampleFilter,
+  ResponsiveOptions,
+  ResponsiveWidth,
+  TrimOptions
+} from '@/workers/protocol';
+
+const PROFILES_STORAGE_KEY = 'imageConverter.profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'imageConverter.activeProfile';
+
+// Reproduz o comportamento original: WebP 1000x1000, recorte central, 30–50 KB
+export const DEFAULT_PROFILE: EncodingProfile = {
+  id: 'default',
+  name: 'Padrão (WebP 1000×1000)',
+  width: 1000,
+  height: 1000,
+  minKB: 30,
+  maxKB: 50,
+  format: 'image/webp',
+  fit: 'cover',
+  padColor: '#ffffff',
+  target: 'size',
+  minSsim: 0.95,
+  resampleFilter: 'browser',
+  linearLight: false,
+  premultiplyAlpha: true,
+  sharpenAmount: 0,
+  metadata: { author: '', copyright: '', sourceUrl: '' },
+  strictBudget: false,
+  minWidth: 500,
+  minHeight: 500,
+  responsive: {
+    enabled: false,
+    widths: [
+      { width: 320, maxKB: 10 },
+      { width: 640, maxKB: 25 },
+      { width: 1000, maxKB: 50 },
+      { width: 1600, maxKB: 110 }
+    ],
+    formats: ['image/webp']
+  },
+  trim: {
+    enabled: false,
+    tolerance: 10,
+    marginPercent: 5
+  },
+  background: {
+    remove: false,
+    tolerance: 8,
+    feather: 1,
+    flatten: false,
+    flattenColor: '#ffffff'
+  },
+  compliance: {
+    enabled: false,
+    minWidth: 500,
+    minHeight: 500,
+    maxFileKB: 10240,
+    allowedFormats: ['image/jpeg', 'image/png', 'image/webp'],
+    whiteBackground: false,
+    minFillPercent: 0
+  }
+};
+
+// Presets de marketplace: convertem nas regras da loja (tamanho, formato, fundo
+// branco nas margens) e verificam o resultado. Seguem os guias publicados de
+// cada loja para a foto principal; para outras regras, crie uma cópia e edite
+export const MARKETPLACE_PRESETS: EncodingProfile[] = [
+  {
+    ...DEFAULT_PROFILE,
+    id: 'marketplace-amazon',
+    name: 'Amazon (foto principal)',
+    width: 2000,
+    height: 2000,
+    minKB: 300,
+    maxKB: 1000,
+    format: 'image/jpeg',
+    fit: 'contain',
+    // Margem de 5% de cada lado: o produto ocupa 90% do quadro
+    trim: { enabled: true, tolerance: 10, marginPercent: 5 },
+    compliance: {
+      enabled: true,
+      minWidth: 1000,
+      minHeight: 1000,
+      maxFileKB: 10240,
+      allowedFormats: ['image/jpeg', 'image/png'],
+      whiteBackground: true,
+      minFillPercent: 85
+    }
+  },
+  {
+    ...DEFAULT_PROFILE,
+    id: 'marketplace-mercado-livre',
+    name: 'Mercado Livre (foto principal)',
+    width: 1200,
+    height: 1200,
+    minKB: 100,
+    maxKB: 400,
+    format: 'image/jpeg',
+    fit: 'contain',
+    compliance: {
+      enabled: true,
+      minWidth: 500,
+      minHeight: 500,
+      maxFileKB: 10240,
+      allowedFormats: ['image/jpeg', 'image/png'],
+      whiteBackground: true,
+      minFillPercent: 0
+    }
+  },
+  {
+    ...DEFAULT_PROFILE,
+    id: 'marketplace-shopee',
+    name: 'Shopee',
+    width: 1024,
+    height: 1024,
+    minKB: 80,
+    maxKB: 250,
+    format: 'image/jpeg',
+    fit: 'contain',
+    compliance: {
+      enabled: true,
+      minWidth: 500,
+      minHeight: 500,
+      maxFileKB: 2048,
+      allowedFormats: ['image/jpeg', 'image/png'],
+      whiteBackground: false,
+      minFillPercent: 0
+    }
+  }
+];
+
+// Perfis que acompanham o app: sempre listados, nunca salvos nem editados
+export const BUILT_IN_PROFILES: EncodingProfile[] = [DEFAULT_PROFILE, ...MARKETPLACE_PRESETS];
+
+export function isBuiltInProfile(id: string): boolean {
+  return BUILT_IN_PROFILES.some(profile => profile.id === id);
+}
+
+export const MAX_PROFILE_DIMENSION = 8192;
+
+export const FIT_MODE_LABELS: Record<FitMode, string> = {
+  cover: 'Preencher (recorte central)',
+  contain: 'Conter com margens',
+  blur: 'Conter sobre fundo desfocado',
+  stretch: 'Esticar',
+  inside: 'Reduzir para caber (sem ampliar)',
+  smart: 'Recorte inteligente (conteúdo)'
+};
+
+export const QUALITY_TARGET_LABELS: Record<QualityTarget, string> = {
+  size: 'Faixa de tamanho (KB)',
+  ssim: 'Qualidade perceptual (SSIM)'
+};
+
+export const RESAMPLE_FILTER_LABELS: Record<ResampleFilter, string> = {
+  browser: 'Navegador (drawImage)',
+  lanczos3: 'Lanczos3 (mais nítido)',
+  area: 'Média de área (reduções grandes)',
+  bilinear: 'Bilinear'
+};
+
+export const MAX_SHARPEN_AMOUNT = 2;
+
+// Acima disto a margem deixaria o produto pequeno demais no quadro
+export const MAX_TRIM_MARGIN_PERCENT = 40;
+
+// Quanto do quadro o produto ocupa pelo maior lado depois do corte automático
+export function getTrimFillPercent(trim: TrimOptions): number {
+  return 100 - 2 * trim.marginPercent;
+}
+
+// Do mais compatível para o mais moderno: o primeiro formato escolhido vai no
+// <img> de fallback e os demais viram <source>, do mais moderno para trás
+export const RESPONSIVE_FORMAT_ORDER: OutputFormat[] = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'];
+
+// Altura de uma variante responsiva na proporção do perfil
+export function getResponsiveHeight(profile: EncodingProfile, width: number): number {
+  return Math.max(1, Math.round(width * profile.height / profile.width));
+}
+
+// Teto sugerido para uma nova largura: o orçamento do perfil proporcional à área
+export function suggestResponsiveMaxKB(profile: EncodingProfile, width: number): number {
+  return Math.max(1, Math.round(profile.maxKB * (width / profile.width) ** 2));
+}
+
+// Gerar um id único para um perfil criado pelo usuário
+export function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`;
+}
+
+// Validar um perfil antes de salvar; retorna a mensagem de erro ou null
+export function validateProfile(profile: EncodingProfile): string | null {
+  if (!profile.name.trim()) {
+    return 'Dê um nome ao perfil.';
+  }
+  const dimensions = [profile.width, profile.height];
+  if (dimensions.some(d => !Number.isInteger(d) || d < 1 || d > MAX_PROFILE_DIMENSION)) {
+    return `Largura e altura devem ser inteiros entre 1 e ${MAX_PROFILE_DIMENSION}.`;
+  }
+  if (!(profile.minKB >= 0) || !(profile.maxKB > 0)) {
+    return 'O orçamento em KB deve ser um número positivo.';
+  }
+  if (profile.minKB > profile.maxKB) {
+    return 'O tamanho mínimo não pode ser maior que o máximo.';
+  }
+  if (profile.target === 'ssim' && !(profile.minSsim > 0 && profile.minSsim < 1)) {
+    return 'O SSIM mínimo deve estar entre 0 e 1.';
+  }
+  if (!(profile.sharpenAmount >= 0 && profile.sharpenAmount <= MAX_SHARPEN_AMOUNT)) {
+    return `A intensidade da nitidez deve estar entre 0 e ${MAX_SHARPEN_AMOUNT}.`;
+  }
+  if (profile.metadata.sourceUrl.trim() && !/^https?:\/\/\S+$/i.test(profile.metadata.sourceUrl.trim())) {
+    return 'A URL de origem deve começar com http:// ou https://.';
+  }
+  if (profile.strictBudget) {
+    const minimums = [profile.minWidth, profile.minHeight];
+    if (minimums.some(d => !Number.isInteger(d) || d < 1)) {
+      return 'As dimensões mínimas devem ser inteiros positivos.';
+    }
+    if (profile.minWidth > profile.width || profile.minHeight > profile.height) {
+      return 'As dimensões mínimas não podem ser maiores que as de saída.';
+    }
+  }
+  if (profile.responsive.enabled) {
+    const { widths, formats } = profile.responsive;
+    if (widths.length === 0) {
+      return 'Adicione ao menos uma largura à exportação responsiva.';
+    }
+    if (widths.some(({ width }) => !Number.isInteger(width) || width < 1 || width > MAX_PROFILE_DIMENSION)) {
+      return `As larguras responsivas devem ser inteiros entre 1 e ${MAX_PROFILE_DIMENSION}.`;
+    }
+    if (widths.some(({ width }) => getResponsiveHeight(profile, width) > MAX_PROFILE_DIMENSION)) {
+      return `Na proporção do perfil, alguma largura responsiva passaria de ${MAX_PROFILE_DIMENSION} px de altura.`;
+    }
+    if (new Set(widths.map(({ width }) => width)).size !== widths.length) {
+      return 'As larguras responsivas não podem se repetir.';
+    }
+    if (widths.some(({ maxKB }) => !(maxKB > 0))) {
+      return 'O teto em KB de cada largura responsiva deve ser positivo.';
+    }
+    if (formats.length === 0) {
+      return 'Escolha ao menos um formato para a exportação responsiva.';
+    }
+  }
+  if (profile.trim.enabled) {
+    if (!(profile.trim.tolerance >= 0 && profile.trim.tolerance <= 100)) {
+      return 'A tolerância do corte automático deve estar entre 0 e 100%.';
+    }
+    if (!(profile.trim.marginPercent >= 0 && profile.trim.marginPercent <= MAX_TRIM_MARGIN_PERCENT)) {
+      return `A margem do corte automático deve estar entre 0 e ${MAX_TRIM_MARGIN_PERCENT}%.`;
+    }
+  }
+  if (profile.background.remove) {
+    if (!(profile.background.tolerance >= 0 && profile.background.tolerance <= 100)) {
+      return 'A tolerância da remoção de fundo deve estar entre 0 e 100%.';
+    }
+    if (!(profile.background.feather >= 0 && profile.background.feather <= MAX_FEATHER)) {
+      return `A suavização da remoção de fundo deve estar entre 0 e ${MAX_FEATHER} px.`;
+    }
+  }
+  if (!/^#[0-9a-f]{6}$/i.test(profile.background.flattenColor)) {
+    return 'A cor de fundo deve estar no formato #rrggbb.';
+  }
+  if (profile.compliance.enabled) {
+    const { minWidth, minHeight, maxFileKB, allowedFormats, minFillPercent } = profile.compliance;
+    if ([minWidth, minHeight].some(d => !Number.isInteger(d) || d < 1)) {
+      return 'As dimensões mínimas do marketplace devem ser inteiros positivos.';
+    }
+    if (!(maxFileKB > 0)) {
+      return 'O tamanho máximo de arquivo do marketplace deve ser positivo.';
+    }
+    if (allowedFormats.length === 0) {
+      return 'Escolha ao menos um formato aceito pelo marketplace.';
+    }
+    if (!allowedFormats.includes(profile.format)) {
+      return `O marketplace não aceita ${getFormatLabel(profile.format)}: mude o formato do perfil ou as regras.`;
+    }
+    if (!(minFillPercent >= 0 && minFillPercent <= 100)) {
+      return 'O preenchimento mínimo deve estar entre 0 e 100%.';
+    }
+  }
+  return null;
+}
+
+// Ler os perfis do usuário; os embutidos vêm sempre primeiro e não são salvos
+export function loadProfiles(): EncodingProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || '[]');
+    const custom = Array.isArray(stored)
+      ? stored
+          .map((profile: EncodingProfile) => ({ ...DEFAULT_PROFILE, ...profile }))
+          .filter((profile: EncodingProfile) => !isBuiltInProfile(profile.id) && !validateProfile(profile))
+      : [];
+    return [...BUILT_IN_PROFILES, ...custom];
+  } catch (error) {
+    console.error('Erro ao ler perfis salvos:', error);
+    return BUILT_IN_PROFILES;
+  }
+}
+
+// Salvar os perfis do usuário (os embutidos são ignorados)
+export function saveProfiles(profiles: EncodingProfile[]): void {
+  const custom = profiles.filter(profile => !isBuiltInProfile(profile.id));
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(custom));
+}
+
+export function loadActiveProfileId(): string {
+  return localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || DEFAULT_PROFILE.id;
+}
+
+export function saveActiveProfileId(id: string): void {
+  localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+}
+
+// Descrição curta de um perfil para a interface
+export function describeProfile(profile: EncodingProfile): string {
+  const format = getFormatLabel(profile.format);
+  const goal = profile.target === 'ssim' ? `, SSIM ≥ ${profile.minSsim}` : '';
+  const budget = profile.strictBudget
+    ? `, máx. ${profile.maxKB} KB rígido (reduz até ${profile.minWidth}×${profile.minHeight})`
+    : profile.target === 'ssim' ? '' : `, ${profile.minKB}–${profile.maxKB} KB`;
+  const widths = profile.responsive.widths.map(({ width }) => width).sort((a, b) => a - b);
+  const responsive = profile.responsive.enabled
+    ? `, responsivo ${widths.join('/')} px em ${profile.responsive.formats.map(getFormatLabel).join('+')}`
+    : '';
+  const background = [
+    profile.background.remove ? 'remove o fundo' : '',
+    profile.background.flatten ? `fundo ${profile.background.flattenColor}` : ''
+  ].filter(Boolean).map(step => `, ${step}`).join('');
+  const trim = profile.trim.enabled ? `, corte automático com margem de ${profile.trim.marginPercent}%` : '';
+  const compliance = profile.compliance.enabled ? ', com verificação de marketplace' : '';
+  return `${format} ${profile.width}×${profile.height}${goal}${budget}${background}${trim}${responsive}${compliance}`;
+}
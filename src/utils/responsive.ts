@@ -0,0 +1,80 @@
+// Exportação responsiva: nomes dos arquivos de cada variante e o trecho de HTML
+// (<img srcset> ou <picture>) pronto para colar na loja
+import type { OutputFormat, ResponsiveVariant } from '@/workers/protocol';
+import { getFormatExtension } from './formats';
+import { RESPONSIVE_FORMAT_ORDER } from './profiles';
+
+export interface ResponsiveFile extends ResponsiveVariant {
+  filename: string;
+}
+
+export interface SnippetOptions {
+  // Prefixo das URLs no site de destino (pasta ou CDN); vazio usa só o nome do arquivo
+  baseUrl: string;
+  alt: string;
+  // Largura com que a imagem aparece na página, para o atributo sizes
+  displayWidth: number;
+}
+
+// Nome do original reduzido a letras, números e hífens
+export const slugifyFileName = (name: string): string =>
+  name
+    .replace(/\.[^/.]+$/, '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'img';
+
+// Nomes únicos (o IndexedDB usa o nome como chave) com a largura no final, como
+// produto-lx3k2-640w.webp
+export function nameResponsiveFiles(variants: ResponsiveVariant[], originalName?: string): ResponsiveFile[] {
+  const base = `${slugifyFileName(originalName ?? 'img')}-${Date.now().toString(36)}`;
+  return variants.map(variant => ({
+    ...variant,
+    filename: `${base}-${variant.width}w.${getFormatExtension(variant.format)}`
+  }));
+}
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Formato do <img> (o mais compatível) e dos <source>, do mais moderno para trás
+export function orderSnippetFormats(formats: OutputFormat[]): { fallback: OutputFormat; sources: OutputFormat[] } {
+  const ordered = RESPONSIVE_FORMAT_ORDER.filter(format => formats.includes(format));
+  return { fallback: ordered[0], sources: ordered.slice(1).reverse() };
+}
+
+// <img srcset> quando há um só formato, <picture> com um <source> por formato
+// moderno quando há vários; width/height vêm da maior variante do fallback
+export function buildResponsiveSnippet(files: ResponsiveFile[], { baseUrl, alt, displayWidth }: SnippetOptions): string {
+  if (files.length === 0) return '';
+  const prefix = baseUrl && !baseUrl.endsWith('/') ? `${baseUrl}/` : baseUrl;
+  const { fallback, sources } = orderSnippetFormats([...new Set(files.map(file => file.format))]);
+
+  const filesOf = (format: OutputFormat) =>
+    files.filter(file => file.format === format).sort((a, b) => a.width - b.width);
+  const srcset = (format: OutputFormat) =>
+    filesOf(format).map(file => `${escapeAttribute(prefix + file.filename)} ${file.width}w`).join(', ');
+  const sizes = `(max-width: ${displayWidth}px) 100vw, ${displayWidth}px`;
+
+  const fallbackFiles = filesOf(fallback);
+  const largest = fallbackFiles[fallbackFiles.length - 1];
+  const img = [
+    `<img src="${escapeAttribute(prefix + largest.filename)}"`,
+    `srcset="${srcset(fallback)}"`,
+    `sizes="${sizes}"`,
+    `width="${largest.width}" height="${largest.height}"`,
+    `alt="${escapeAttribute(alt)}" loading="lazy" decoding="async">`
+  ];
+
+  if (sources.length === 0) {
+    return img.join('\n     ');
+  }
+  return [
+    '<picture>',
+    ...sources.map(format => `  <source type="${format}" srcset="${srcset(format)}" sizes="${sizes}">`),
+    `  ${img.join('\n       ')}`,
+    '</picture>'
+  ].join('\n');
+}
@@ -0,0 +1,201 @@
+// Entrada SVG: o arquivo é higienizado e rasterizado na thread principal (o
+// worker não tem DOMParser nem decodifica SVG) no tamanho que o perfil precisa,
+// em vez do tamanho intrínseco que o navegador escolheria.
+import type { ImageInput } from '@/workers/protocol';
+
+export interface SvgDimensions {
+  width: number;
+  height: number;
+}
+
+// Tamanho padrão de um SVG sem width/height nem viewBox, como nos navegadores
+const DEFAULT_SVG_SIZE: SvgDimensions = { width: 300, height: 150 };
+// Limite seguro para o canvas na maioria dos navegadores
+const MAX_RASTER_SIDE = 8192;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Unidades absolutas em pixels CSS (96 por polegada); em/ex supõem fonte de 16px
+const UNIT_TO_PX: Record<string, number> = {
+  '': 1,
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+  em: 16,
+  ex: 8
+};
+
+// Elementos que executam código ou embutem documentos
+const UNSAFE_ELEMENTS = ['script', 'iframe', 'embed', 'object'];
+
+export function isSvgFile(file: File): boolean {
+  return file.type === 'image/svg+xml' || /\.svg$/i.test(file.name);
+}
+
+// Comprimento de um atributo width/height; porcentagens e valores inválidos dão null
+const parseLength = (value: string | null): number | null => {
+  const match = value?.trim().match(/^([+]?\d*\.?\d+(?:e[+-]?\d+)?)([a-z]*)$/i);
+  if (!match) return null;
+  const factor = UNIT_TO_PX[match[2].toLowerCase()];
+  const length = Number(match[1]) * (factor ?? NaN);
+  return Number.isFinite(length) && length > 0 ? length : null;
+};
+
+const parseViewBox = (value: string | null): SvgDimensions | null => {
+  const parts = value?.trim().split(/[\s,]+/).map(Number);
+  if (!parts || parts.length !== 4 || parts.some(n => !Number.isFinite(n)) || parts[2] <= 0 || parts[3] <= 0) {
+    return null;
+  }
+  return { width: parts[2], height: parts[3] };
+};
+
+// Tamanho intrínseco: width/height absolutos; sem um deles, a proporção do viewBox
+export function getSvgDimensions(svg: Element): SvgDimensions {
+  const width = parseLength(svg.getAttribute('width'));
+  const height = parseLength(svg.getAttribute('height'));
+  const viewBox = parseViewBox(svg.getAttribute('viewBox'));
+
+  if (width && height) return { width, height };
+  if (viewBox) {
+    if (width) return { width, height: width * viewBox.height / viewBox.width };
+    if (height) return { width: height * viewBox.width / viewBox.height, height };
+    return viewBox;
+  }
+  return { width: width ?? DEFAULT_SVG_SIZE.width, height: height ?? DEFAULT_SVG_SIZE.height };
+}
+
+// Referência que não aponta para dentro do próprio arquivo
+const isExternalReference = (reference: string): boolean => {
+  const value = reference.trim();
+  return value !== '' && !value.startsWith('#') && !/^data:/i.test(value);
+};
+
+// url(...) externos e @import em CSS ou em atributos de apresentação
+const findExternalUrls = (text: string): string[] => {
+  const urls: string[] = [];
+  for (const match of text.matchAll(/url\(\s*(['"]?)(.*?)\1\s*\)/gi)) {
+    if (isExternalReference(match[2])) urls.push(match[2]);
+  }
+  for (const match of text.matchAll(/@import\s+(?:url\(\s*)?(['"]?)([^'")\s;]+)\1/gi)) {
+    urls.push(match[2]);
+  }
+  return urls;
+};
+
+// Remover scripts, handlers e links; devolve os recursos externos de que o
+// desenho depende (imagens, <use>, fontes e pinturas em outros arquivos), que
+// também são removidos porque nunca seriam carregados
+export function sanitizeSvg(doc: Document): string[] {
+  const dependencies: string[] = [];
+
+  UNSAFE_ELEMENTS.forEach(name => {
+    Array.from(doc.getElementsByTagNameNS('*', name)).forEach(element => element.remove());
+  });
+
+  for (const element of Array.from(doc.getElementsByTagName('*'))) {
+    for (const attribute of Array.from(element.attributes)) {
+      const name = attribute.name.toLowerCase();
+      const value = attribute.value;
+
+      if (name.startsWith('on')) {
+        element.removeAttributeNode(attribute);
+        continue;
+      }
+
+      if (name === 'href' || name === 'xlink:href') {
+        // Links não fazem parte do desenho: somem sem erro
+        const isLink = element.localName === 'a';
+        if (/^\s*javascript:/i.test(value) || (isLink && isExternalReference(value))) {
+          element.removeAttributeNode(attribute);
+        } else if (isExternalReference(value)) {
+          dependencies.push(value);
+          element.removeAttributeNode(attribute);
+        }
+        continue;
+      }
+
+      const urls = findExternalUrls(value);
+      if (urls.length > 0) {
+        dependencies.push(...urls);
+        element.removeAttributeNode(attribute);
+      }
+    }
+
+    if (element.localName === 'style') {
+      const urls = findExternalUrls(element.textContent ?? '');
+      if (urls.length > 0) {
+        dependencies.push(...urls);
+        element.textContent = (element.textContent ?? '')
+          .replace(/@import[^;]*;?/gi, '')
+          .replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, _quote, url: string) => isExternalReference(url) ? 'none' : match);
+      }
+    }
+  }
+
+  return [...new Set(dependencies)];
+}
+
+// Arquivos SVG seguem para o worker já rasterizados; os demais, como estão
+export async function toImageInput(file: File, targetWidth: number, targetHeight: number): Promise<ImageInput> {
+  return isSvgFile(file) ? rasterizeSvg(file, targetWidth, targetHeight) : file;
+}
+
+const loadImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('O navegador não conseguiu desenhar este SVG.'));
+  image.src = url;
+});
+
+// Rasterizar o SVG para cobrir targetWidth×targetHeight: o enquadramento do
+// worker só reduz, então as bordas continuam nítidas em qualquer modo
+export async function rasterizeSvg(file: Blob, targetWidth: number, targetHeight: number): Promise<ImageBitmap> {
+  const doc = new DOMParser().parseFromString(await file.text(), 'image/svg+xml');
+  const svg = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || svg.localName !== 'svg' || svg.namespaceURI !== SVG_NS) {
+    throw new Error('SVG inválido: o arquivo não pôde ser lido como XML.');
+  }
+
+  const dependencies = sanitizeSvg(doc);
+  if (dependencies.length > 0) {
+    const listed = dependencies.slice(0, 3).join(', ') + (dependencies.length > 3 ? ` e mais ${dependencies.length - 3}` : '');
+    throw new Error(
+      `O SVG depende de recursos externos que não podem ser carregados (${listed}). ` +
+      'Incorpore imagens e fontes no próprio arquivo ou converta os textos em curvas.'
+    );
+  }
+
+  const intrinsic = getSvgDimensions(svg);
+  const scale = Math.min(
+    Math.max(targetWidth / intrinsic.width, targetHeight / intrinsic.height),
+    MAX_RASTER_SIDE / Math.max(intrinsic.width, intrinsic.height)
+  );
+  const width = Math.max(1, Math.round(intrinsic.width * scale));
+  const height = Math.max(1, Math.round(intrinsic.height * scale));
+
+  // Sem viewBox o desenho não acompanharia o novo tamanho
+  if (!svg.hasAttribute('viewBox')) {
+    svg.setAttribute('viewBox', `0 0 ${intrinsic.width} ${intrinsic.height}`);
+  }
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(doc)], { type: 'image/svg+xml' }));
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Não foi possível obter o contexto do canvas.');
+    }
+    ctx.drawImage(image, 0, 0, width, height);
+    return await createImageBitmap(canvas);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,83 @@
+// Multiplexador de WebP animado: junta WebPs estáticos (um por quadro, gerados
+// pelo codificador do navegador) em VP8X + ANIM + ANMF, sem recodificar.
+import { buildRiffChunk, buildWebpFile, splitRiffChunks, VP8X_FLAGS } from '@/utils/metadataWriter';
+
+export interface AnimationFrame {
+    // WebP estático completo, do tamanho da tela da animação
+    webp: Uint8Array;
+    // Duração em milissegundos
+    duration: number;
+}
+
+export interface AnimationOptions {
+    width: number;
+    height: number;
+    // 0 repete para sempre
+    loopCount: number;
+    frames: AnimationFrame[];
+}
+
+// Os campos do VP8X e do ANMF são inteiros de 24 bits little-endian
+const MAX_24_BIT = 0xffffff;
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+const writeUint24 = (target: Uint8Array, offset: number, value: number) => {
+    target[offset] = value & 0xff;
+    target[offset + 1] = (value >> 8) & 0xff;
+    target[offset + 2] = (value >> 16) & 0xff;
+};
+
+// Chunks de imagem de um WebP estático (ALPH + VP8, ou VP8L) e se há transparência
+const extractImageChunks = (webp: Uint8Array): { chunks: Uint8Array[]; hasAlpha: boolean } => {
+    const all = splitRiffChunks(webp);
+    const chunks = all.filter(chunk => chunk.type === 'ALPH' || chunk.type === 'VP8 ' || chunk.type === 'VP8L');
+    if (!chunks.some(chunk => chunk.type !== 'ALPH')) {
+        throw new Error('O codificador gerou um quadro WebP sem dados de imagem.');
+    }
+
+    const header = all.find(chunk => chunk.type === 'VP8X');
+    const lossless = chunks.find(chunk => chunk.type === 'VP8L');
+    const hasAlpha = Boolean(header && header.bytes[8] & VP8X_FLAGS.alpha) ||
+        chunks.some(chunk => chunk.type === 'ALPH') ||
+        Boolean(lossless && lossless.bytes[12] & 0x10);
+    return { chunks: chunks.map(chunk => chunk.bytes), hasAlpha };
+};
+
+export const muxAnimatedWebp = ({ width, height, loopCount, frames }: AnimationOptions): Uint8Array => {
+    let hasAlpha = false;
+
+    const frameChunks = frames.map(frame => {
+        const image = extractImageChunks(frame.webp);
+        hasAlpha ||= image.hasAlpha;
+
+        // Quadros do tamanho da tela na origem; sem mistura com o anterior e
+        // sem descarte, então cada quadro substitui o anterior por inteiro
+        const header = new Uint8Array(16);
+        writeUint24(header, 6, width - 1);
+        writeUint24(header, 9, height - 1);
+        writeUint24(header, 12, Math.min(MAX_24_BIT, Math.max(0, Math.round(frame.duration))));
+        header[15] = 0x02;
+
+        return buildRiffChunk('ANMF', concatBytes([header, ...image.chunks]));
+    });
+
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = VP8X_FLAGS.animation | (hasAlpha ? VP8X_FLAGS.alpha : 0);
+    writeUint24(vp8x, 4, width - 1);
+    writeUint24(vp8x, 7, height - 1);
+
+    // Cor de fundo transparente (BGRA) e número de repetições
+    const anim = new Uint8Array(6);
+    new DataView(anim.buffer).setUint16(4, Math.min(0xffff, loopCount), true);
+
+    return buildWebpFile([buildRiffChunk('VP8X', vp8x), buildRiffChunk('ANIM', anim), ...frameChunks]);
+};
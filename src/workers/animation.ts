@@ -0,0 +1,173 @@
+// Animações (GIF convertido ou slideshow do lote) codificadas como WebP animado.
+// Todos os quadros usam a mesma qualidade, então a busca de qualidade trata a
+// animação inteira como uma única imagem cujo tamanho é a soma dos quadros.
+import type { BackgroundOptions, FitMode } from './protocol';
+import { drawBlurredBackground, type FitLayout } from './fit';
+import { applyBackground } from '@/utils/background';
+import { renderGifFrames, type GifImage } from './gif';
+import { muxAnimatedWebp, type AnimationFrame } from './animatedWebp';
+import { roundQuality, type EncodedImage, type Encoder } from './qualitySearch';
+
+type FrameImage = CanvasImageSource & { width: number; height: number };
+
+export interface AnimationSource {
+    // Tamanho dos quadros de origem
+    width: number;
+    height: number;
+    frameCount: number;
+    // 0 repete para sempre
+    loopCount: number;
+    // Percorrer os quadros desde o início; a imagem só vale durante a chamada
+    forEachFrame: (draw: (image: FrameImage, duration: number) => Promise<void>) => Promise<void>;
+}
+
+// Os quadros do GIF são descomprimidos de novo a cada passada da busca, em vez
+// de ficarem todos decodificados na memória
+export const createGifSource = (gif: GifImage): AnimationSource => ({
+    width: gif.width,
+    height: gif.height,
+    frameCount: gif.frames.length,
+    loopCount: gif.loopCount,
+    forEachFrame: async (draw) => {
+        const canvas = new OffscreenCanvas(gif.width, gif.height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+        }
+        for (const { pixels, delay } of renderGifFrames(gif)) {
+            ctx.putImageData(new ImageData(pixels, gif.width, gif.height), 0, 0);
+            await draw(canvas, delay);
+        }
+    }
+});
+
+// Slides já enquadrados no tamanho de saída, cada um com a sua duração
+export const createSlideshowSource = (slides: ImageBitmap[], durations: number[], loopCount: number): AnimationSource => ({
+    width: slides[0].width,
+    height: slides[0].height,
+    frameCount: slides.length,
+    loopCount,
+    forEachFrame: async (draw) => {
+        for (let i = 0; i < slides.length; i++) {
+            await draw(slides[i], durations[i]);
+        }
+    }
+});
+
+export interface AnimationPaint {
+    fit: FitMode;
+    padColor: string;
+}
+
+// Desenhar um quadro de origem enquadrado no canvas de saída
+const paintFrame = (
+    ctx: OffscreenCanvasRenderingContext2D,
+    image: FrameImage,
+    frame: FitLayout,
+    paint: AnimationPaint
+) => {
+    const { width, height } = ctx.canvas;
+    ctx.clearRect(0, 0, width, height);
+    if (paint.fit === 'contain' && paint.padColor !== 'transparent') {
+        ctx.fillStyle = paint.padColor;
+        ctx.fillRect(0, 0, width, height);
+    } else if (paint.fit === 'blur') {
+        drawBlurredBackground(ctx, image, width, height);
+    }
+    ctx.drawImage(
+        image,
+        frame.sx, frame.sy, frame.sWidth, frame.sHeight,
+        frame.dx, frame.dy, frame.dWidth, frame.dHeight
+    );
+};
+
+// Enquadrar todos os quadros uma só vez, com as etapas de fundo do perfil já
+// aplicadas: a remoção de fundo é cara demais para repetir a cada passada da
+// busca de qualidade. O resultado é uma fonte de quadros prontos, no tamanho
+// de saída, como a do slideshow.
+export const createBackgroundSource = async (
+    source: AnimationSource,
+    frame: FitLayout,
+    paint: AnimationPaint,
+    background: BackgroundOptions,
+    beforeFrame: () => void
+): Promise<{ source: AnimationSource; close: () => void }> => {
+    const canvas = new OffscreenCanvas(frame.canvasWidth, frame.canvasHeight);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    const slides: ImageBitmap[] = [];
+    const durations: number[] = [];
+    const close = () => slides.forEach(slide => slide.close());
+    try {
+        await source.forEachFrame(async (image, duration) => {
+            beforeFrame();
+            paintFrame(ctx, image, frame, paint);
+            const composited = ctx.getImageData(0, 0, canvas.width, canvas.height);
+            applyBackground(composited, background);
+            ctx.putImageData(composited, 0, 0);
+            slides.push(canvas.transferToImageBitmap());
+            durations.push(duration);
+        });
+    } catch (error) {
+        close();
+        throw error;
+    }
+    return { source: createSlideshowSource(slides, durations, source.loopCount), close };
+};
+
+// Codificador de animação com cache por qualidade, compatível com a busca de
+// qualidade dos quadros estáticos. onPass é chamado a cada animação completa,
+// com o último quadro ainda no canvas.
+export const createAnimationEncoder = (
+    source: AnimationSource,
+    frame: FitLayout,
+    paint: AnimationPaint,
+    beforeEncode: () => void,
+    onPass: (lastFrame: OffscreenCanvas) => void
+): Encoder => {
+    const cache = new Map<number, EncodedImage>();
+    const canvas = new OffscreenCanvas(frame.canvasWidth, frame.canvasHeight);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    const encode = async (quality: number): Promise<EncodedImage> => {
+        const key = roundQuality(quality);
+        const cached = cache.get(key);
+        if (cached) return cached;
+
+        const frames: AnimationFrame[] = [];
+        await source.forEachFrame(async (image, duration) => {
+            beforeEncode();
+            paintFrame(ctx, image, frame, paint);
+
+            const blob = await canvas.convertToBlob({ type: 'image/webp', quality: key });
+            if (blob.type !== 'image/webp') {
+                throw new Error('Este navegador não consegue gerar imagens WebP.');
+            }
+            frames.push({ webp: new Uint8Array(await blob.arrayBuffer()), duration });
+        });
+        onPass(canvas);
+
+        const bytes = muxAnimatedWebp({
+            width: frame.canvasWidth,
+            height: frame.canvasHeight,
+            loopCount: source.loopCount,
+            frames
+        });
+        const blob = new Blob([bytes], { type: 'image/webp' });
+        const encoded = { blob, size: blob.size, quality: key };
+        cache.set(key, encoded);
+        return encoded;
+    };
+
+    return { encode, count: () => cache.size };
+};
@@ -0,0 +1,192 @@
+// Decodificador de BMP (cabeçalhos core, INFO, V4 e V5): 1, 4, 8, 16, 24 e 32
+// bits, paletas, RLE4/RLE8 e máscaras de bits. A parte DIB também atende os
+// ícones, que guardam o bitmap sem o cabeçalho de arquivo e com uma máscara AND.
+
+const COMPRESSION = { rgb: 0, rle8: 1, rle4: 2, bitfields: 3, jpeg: 4, png: 5, alphaBitfields: 6 };
+
+export const isBmp = (bytes: Uint8Array): boolean => bytes.length >= 26 && bytes[0] === 0x42 && bytes[1] === 0x4d;
+
+interface BitMask {
+    mask: number;
+    shift: number;
+    max: number;
+}
+
+const toBitMask = (mask: number): BitMask => {
+    if (mask === 0) return { mask: 0, shift: 0, max: 0 };
+    let shift = 0;
+    while (((mask >>> shift) & 1) === 0) shift++;
+    return { mask: mask >>> 0, shift, max: (mask >>> shift) };
+};
+
+const readMasked = (value: number, { mask, shift, max }: BitMask): number =>
+    max === 0 ? 0 : Math.round((((value & mask) >>> shift) * 255) / max);
+
+// Expandir RLE8/RLE4 em índices, uma linha por vez de baixo para cima
+const decodeRle = (data: Uint8Array, width: number, height: number, nibbles: boolean): Uint8Array => {
+    const indices = new Uint8Array(width * height);
+    let x = 0;
+    let y = 0;
+    let i = 0;
+    const put = (index: number) => {
+        if (x < width && y < height) indices[y * width + x] = index;
+        x++;
+    };
+
+    while (i + 1 < data.length && y < height) {
+        const count = data[i++];
+        const value = data[i++];
+        if (count > 0) {
+            for (let n = 0; n < count; n++) {
+                put(nibbles ? (n % 2 === 0 ? value >> 4 : value & 0x0f) : value);
+            }
+        } else if (value === 0) {
+            x = 0; // Fim de linha
+            y++;
+        } else if (value === 1) {
+            break; // Fim do bitmap
+        } else if (value === 2) {
+            x += data[i++];
+            y += data[i++];
+        } else {
+            // Sequência literal, alinhada a 16 bits
+            const bytes = nibbles ? Math.ceil(value / 2) : value;
+            for (let n = 0; n < value; n++) {
+                put(nibbles ? (n % 2 === 0 ? data[i + (n >> 1)] >> 4 : data[i + (n >> 1)] & 0x0f) : data[i + n]);
+            }
+            i += bytes + (bytes % 2);
+        }
+    }
+    return indices;
+};
+
+export interface DibOptions {
+    // Onde começam os pixels; nos ícones vêm logo depois da paleta
+    pixelOffset?: number;
+    // Ícone: a altura inclui a máscara AND, guardada depois dos pixels
+    icon?: boolean;
+}
+
+// Decodificar um bitmap independente de dispositivo começando no cabeçalho DIB
+export const decodeDib = (bytes: Uint8Array, headerOffset: number, options: DibOptions = {}): ImageData => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const headerSize = view.getUint32(headerOffset, true);
+    const core = headerSize === 12;
+
+    const width = core ? view.getUint16(headerOffset + 4, true) : view.getInt32(headerOffset + 4, true);
+    const rawHeight = core ? view.getInt16(headerOffset + 6, true) : view.getInt32(headerOffset + 8, true);
+    const bitCount = view.getUint16(headerOffset + (core ? 10 : 14), true);
+    const compression = core ? COMPRESSION.rgb : view.getUint32(headerOffset + 16, true);
+    const colorsUsed = core ? 0 : view.getUint32(headerOffset + 32, true);
+
+    const topDown = rawHeight < 0;
+    const height = Math.abs(rawHeight) / (options.icon ? 2 : 1);
+    if (width <= 0 || height <= 0) {
+        throw new Error('BMP corrompido: dimensões inválidas.');
+    }
+    if (compression === COMPRESSION.jpeg || compression === COMPRESSION.png) {
+        throw new Error(`BMP não suportado: pixels comprimidos como ${compression === COMPRESSION.jpeg ? 'JPEG' : 'PNG'}.`);
+    }
+    if (![1, 4, 8, 16, 24, 32].includes(bitCount)) {
+        throw new Error(`BMP não suportado: ${bitCount} bits por pixel.`);
+    }
+    if (compression > COMPRESSION.alphaBitfields) {
+        throw new Error(`BMP não suportado: compressão desconhecida (${compression}).`);
+    }
+
+    // Máscaras: dentro do cabeçalho V2+ ou logo depois do cabeçalho INFO
+    let masks: BitMask[] | null = null;
+    let afterHeader = headerOffset + headerSize;
+    if (compression === COMPRESSION.bitfields || compression === COMPRESSION.alphaBitfields) {
+        const maskOffset = headerOffset + 40;
+        const maskCount = compression === COMPRESSION.alphaBitfields || headerSize >= 56 ? 4 : 3;
+        masks = Array.from({ length: 4 }, (_, i) => toBitMask(i < maskCount ? view.getUint32(maskOffset + i * 4, true) : 0));
+        if (headerSize === 40) afterHeader += maskCount * 4;
+    } else if (bitCount === 16) {
+        masks = [0x7c00, 0x03e0, 0x001f, 0].map(toBitMask);
+    } else if (bitCount === 32) {
+        masks = [0x00ff0000, 0x0000ff00, 0x000000ff, 0xff000000].map(toBitMask);
+    }
+
+    const paletteEntrySize = core ? 3 : 4;
+    const paletteSize = bitCount <= 8 ? (colorsUsed || 1 << bitCount) : 0;
+    const palette = bytes.subarray(afterHeader, afterHeader + paletteSize * paletteEntrySize);
+    const pixelOffset = options.pixelOffset ?? afterHeader + palette.length;
+
+    const stride = Math.floor((bitCount * width + 31) / 32) * 4;
+    const image = new ImageData(width, height);
+    const out = image.data;
+    const rowOf = (y: number) => (topDown ? y : height - 1 - y);
+
+    const rle = compression === COMPRESSION.rle8 || compression === COMPRESSION.rle4
+        ? decodeRle(bytes.subarray(pixelOffset), width, height, compression === COMPRESSION.rle4)
+        : null;
+    let hasAlpha = false;
+
+    for (let y = 0; y < height; y++) {
+        const row = pixelOffset + rowOf(y) * stride;
+        for (let x = 0; x < width; x++) {
+            const p = (y * width + x) * 4;
+
+            if (bitCount <= 8) {
+                let index: number;
+                if (rle) {
+                    // O RLE é guardado de baixo para cima, como as linhas sem compressão
+                    index = rle[rowOf(y) * width + x];
+                } else {
+                    const bit = x * bitCount;
+                    index = (bytes[row + (bit >> 3)] >> (8 - bitCount - (bit & 7))) & ((1 << bitCount) - 1);
+                }
+                const entry = index * paletteEntrySize;
+                out[p] = palette[entry + 2] ?? 0;
+                out[p + 1] = palette[entry + 1] ?? 0;
+                out[p + 2] = palette[entry] ?? 0;
+                out[p + 3] = 255;
+            } else if (bitCount === 24) {
+                const s = row + x * 3;
+                out[p] = bytes[s + 2];
+                out[p + 1] = bytes[s + 1];
+                out[p + 2] = bytes[s];
+                out[p + 3] = 255;
+            } else if (masks) {
+                const value = bitCount === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+                out[p] = readMasked(value, masks[0]);
+                out[p + 1] = readMasked(value, masks[1]);
+                out[p + 2] = readMasked(value, masks[2]);
+                out[p + 3] = masks[3].max ? readMasked(value, masks[3]) : 255;
+                if (masks[3].max && out[p + 3] > 0) hasAlpha = true;
+            }
+        }
+    }
+
+    // Canal alfa todo zerado é só preenchimento: a imagem é opaca
+    if (masks?.[3].max && !hasAlpha) {
+        for (let p = 3; p < out.length; p += 4) out[p] = 255;
+    }
+
+    // Máscara AND dos ícones (1 bit, 1 = transparente), quando não há alfa próprio
+    if (options.icon && !hasAlpha) {
+        const maskStride = Math.floor((width + 31) / 32) * 4;
+        const maskOffset = pixelOffset + stride * height;
+        if (maskOffset + maskStride * height <= bytes.length) {
+            for (let y = 0; y < height; y++) {
+                const row = maskOffset + rowOf(y) * maskStride;
+                for (let x = 0; x < width; x++) {
+                    if ((bytes[row + (x >> 3)] >> (7 - (x & 7))) & 1) {
+                        out[(y * width + x) * 4 + 3] = 0;
+                    }
+                }
+            }
+        }
+    }
+
+    return image;
+};
+
+export const decodeBmp = (bytes: Uint8Array): ImageData => {
+    if (!isBmp(bytes)) {
+        throw new Error('O arquivo não é um BMP válido.');
+    }
+    const pixelOffset = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(10, true);
+    return decodeDib(bytes, 14, { pixelOffset });
+};
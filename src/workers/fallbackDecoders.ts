@@ -0,0 +1,25 @@
+// Decodificadores em TypeScript para formatos que o createImageBitmap do
+// navegador pode não entender; usados só quando a decodificação nativa falha
+import { decodeBmp, isBmp } from './bmp';
+import { decodeIco, isIco } from './ico';
+import { decodeTiff, isTiff } from './tiff';
+
+export interface FallbackImage {
+    // Pixels decodificados, ou um PNG embutido (ícones) para o decodificador nativo
+    image: ImageData | Blob;
+    orientation: number;
+}
+
+// null quando o formato não é nenhum dos conhecidos
+export const decodeWithFallback = (bytes: Uint8Array): FallbackImage | null => {
+    if (isTiff(bytes)) {
+        return decodeTiff(bytes);
+    }
+    if (isBmp(bytes)) {
+        return { image: decodeBmp(bytes), orientation: 1 };
+    }
+    if (isIco(bytes)) {
+        return { image: decodeIco(bytes), orientation: 1 };
+    }
+    return null;
+};
@@ -0,0 +1,155 @@
+// Enquadramento da imagem no quadro de saída do perfil
+import type { CropRect, FitMode } from './protocol';
+
+export interface FitLayout {
+    canvasWidth: number;
+    canvasHeight: number;
+    // Região da imagem de origem
+    sx: number;
+    sy: number;
+    sWidth: number;
+    sHeight: number;
+    // Região de destino no canvas
+    dx: number;
+    dy: number;
+    dWidth: number;
+    dHeight: number;
+}
+
+// Calcular origem, destino e tamanho do canvas para cada modo de enquadramento
+export const computeFitLayout = (
+    imgWidth: number,
+    imgHeight: number,
+    targetWidth: number,
+    targetHeight: number,
+    fit: FitMode
+): FitLayout => {
+    const full = { sx: 0, sy: 0, sWidth: imgWidth, sHeight: imgHeight };
+
+    switch (fit) {
+        case 'cover': {
+            const canvasAspectRatio = targetWidth / targetHeight;
+            const imgAspectRatio = imgWidth / imgHeight;
+            let sx = 0, sy = 0, sWidth = imgWidth, sHeight = imgHeight;
+
+            if (imgAspectRatio > canvasAspectRatio) {
+                sWidth = imgHeight * canvasAspectRatio;
+                sx = (imgWidth - sWidth) / 2;
+            } else if (imgAspectRatio < canvasAspectRatio) {
+                sHeight = imgWidth / canvasAspectRatio;
+                sy = (imgHeight - sHeight) / 2;
+            }
+
+            return {
+                canvasWidth: targetWidth, canvasHeight: targetHeight,
+                sx, sy, sWidth, sHeight,
+                dx: 0, dy: 0, dWidth: targetWidth, dHeight: targetHeight
+            };
+        }
+        case 'contain':
+        case 'blur': {
+            const scale = Math.min(targetWidth / imgWidth, targetHeight / imgHeight);
+            const dWidth = Math.round(imgWidth * scale);
+            const dHeight = Math.round(imgHeight * scale);
+
+            return {
+                canvasWidth: targetWidth, canvasHeight: targetHeight,
+                ...full,
+                dx: Math.round((targetWidth - dWidth) / 2),
+                dy: Math.round((targetHeight - dHeight) / 2),
+                dWidth, dHeight
+            };
+        }
+        case 'inside': {
+            // Nunca amplia: imagens menores que o quadro mantêm o tamanho original
+            const scale = Math.min(1, targetWidth / imgWidth, targetHeight / imgHeight);
+            const dWidth = Math.max(1, Math.round(imgWidth * scale));
+            const dHeight = Math.max(1, Math.round(imgHeight * scale));
+
+            return {
+                canvasWidth: dWidth, canvasHeight: dHeight,
+                ...full,
+                dx: 0, dy: 0, dWidth, dHeight
+            };
+        }
+        case 'stretch':
+        default:
+            return {
+                canvasWidth: targetWidth, canvasHeight: targetHeight,
+                ...full,
+                dx: 0, dy: 0, dWidth: targetWidth, dHeight: targetHeight
+            };
+    }
+};
+
+// Corte automático: a região do conteúdo cabe inteira no quadro menos a margem
+// (fração de cada lado) e fica centrada; o resto é preenchido como no contain
+export const computeTrimmedLayout = (
+    region: CropRect,
+    targetWidth: number,
+    targetHeight: number,
+    margin: number
+): FitLayout => {
+    const innerWidth = targetWidth * (1 - 2 * margin);
+    const innerHeight = targetHeight * (1 - 2 * margin);
+    const scale = Math.min(innerWidth / region.width, innerHeight / region.height);
+    const dWidth = Math.max(1, Math.round(region.width * scale));
+    const dHeight = Math.max(1, Math.round(region.height * scale));
+
+    return {
+        canvasWidth: targetWidth, canvasHeight: targetHeight,
+        sx: region.x, sy: region.y, sWidth: region.width, sHeight: region.height,
+        dx: Math.round((targetWidth - dWidth) / 2),
+        dy: Math.round((targetHeight - dHeight) / 2),
+        dWidth, dHeight
+    };
+};
+
+// Reduzir o quadro de saída mantendo a mesma região de origem
+export const scaleLayout = (layout: FitLayout, scale: number): FitLayout => {
+    const canvasWidth = Math.max(1, Math.round(layout.canvasWidth * scale));
+    const canvasHeight = Math.max(1, Math.round(layout.canvasHeight * scale));
+    const scaleX = canvasWidth / layout.canvasWidth;
+    const scaleY = canvasHeight / layout.canvasHeight;
+
+    return {
+        ...layout,
+        canvasWidth,
+        canvasHeight,
+        dx: Math.round(layout.dx * scaleX),
+        dy: Math.round(layout.dy * scaleY),
+        dWidth: Math.max(1, Math.round(layout.dWidth * scaleX)),
+        dHeight: Math.max(1, Math.round(layout.dHeight * scaleY))
+    };
+};
+
+// Fundo desfocado: a imagem ampliada para cobrir o quadro, reduzida a uma
+// miniatura e ampliada de volta, o que funciona mesmo sem suporte a ctx.filter
+export const drawBlurredBackground = (
+    ctx: OffscreenCanvasRenderingContext2D,
+    image: CanvasImageSource & { width: number; height: number },
+    canvasWidth: number,
+    canvasHeight: number
+) => {
+    const BLUR_DOWNSCALE = 24;
+    const cover = computeFitLayout(image.width, image.height, canvasWidth, canvasHeight, 'cover');
+
+    const smallWidth = Math.max(1, Math.round(canvasWidth / BLUR_DOWNSCALE));
+    const smallHeight = Math.max(1, Math.round(canvasHeight / BLUR_DOWNSCALE));
+    const small = new OffscreenCanvas(smallWidth, smallHeight);
+    const smallCtx = small.getContext('2d');
+    if (!smallCtx) return;
+
+    smallCtx.imageSmoothingEnabled = true;
+    smallCtx.imageSmoothingQuality = 'high';
+    smallCtx.drawImage(image, cover.sx, cover.sy, cover.sWidth, cover.sHeight, 0, 0, smallWidth, smallHeight);
+
+    ctx.save();
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(small, 0, 0, canvasWidth, canvasHeight);
+    // Escurece levemente o fundo para destacar o produto
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.15)';
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    ctx.restore();
+};
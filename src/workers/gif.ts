@@ -0,0 +1,286 @@
+// Decodificador de GIF (87a/89a) com quadros, atrasos e modos de descarte.
+// O arquivo é lido uma vez para listar os quadros; os pixels são descomprimidos
+// sob demanda, quadro a quadro, para não manter a animação inteira na memória.
+
+export interface GifFrame {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    interlaced: boolean;
+    // Paleta RGB do quadro (local ou global)
+    palette: Uint8Array;
+    transparentIndex: number | null;
+    // 0/1: manter; 2: limpar o retângulo; 3: voltar ao quadro anterior
+    disposal: number;
+    // Atraso em milissegundos
+    delay: number;
+    minCodeSize: number;
+    data: Uint8Array;
+}
+
+export interface GifImage {
+    width: number;
+    height: number;
+    // 0 repete para sempre; sem a extensão NETSCAPE o GIF toca uma vez
+    loopCount: number;
+    frames: GifFrame[];
+}
+
+export interface GifFrameImage {
+    // Quadro composto no tamanho lógico do GIF (o buffer é reaproveitado)
+    pixels: Uint8ClampedArray;
+    delay: number;
+}
+
+// Navegadores tratam atrasos muito curtos como 100 ms; fazemos o mesmo
+const MIN_DELAY_MS = 20;
+const DEFAULT_DELAY_MS = 100;
+
+export const isGif = (bytes: Uint8Array): boolean => {
+    const signature = String.fromCharCode(...bytes.subarray(0, 6));
+    return signature === 'GIF87a' || signature === 'GIF89a';
+};
+
+// Listar os quadros de um GIF sem descomprimir os pixels
+export const parseGif = (bytes: Uint8Array): GifImage => {
+    if (!isGif(bytes)) {
+        throw new Error('O arquivo não é um GIF válido.');
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const width = view.getUint16(6, true);
+    const height = view.getUint16(8, true);
+    const screenFlags = bytes[10];
+    let offset = 13;
+
+    let globalPalette = new Uint8Array(0);
+    if (screenFlags & 0x80) {
+        const length = 3 * (1 << ((screenFlags & 0x07) + 1));
+        globalPalette = bytes.subarray(offset, offset + length);
+        offset += length;
+    }
+
+    // Concatenar os sub-blocos a partir de offset; devolve os dados e o fim
+    const readSubBlocks = (start: number): { data: Uint8Array; end: number } => {
+        let position = start;
+        let total = 0;
+        while (position < bytes.length && bytes[position] !== 0) {
+            total += bytes[position];
+            position += bytes[position] + 1;
+        }
+        const data = new Uint8Array(total);
+        let written = 0;
+        for (let p = start; p < position; p += bytes[p] + 1) {
+            const block = bytes.subarray(p + 1, Math.min(bytes.length, p + 1 + bytes[p]));
+            data.set(block, written);
+            written += block.length;
+        }
+        return { data: data.subarray(0, written), end: position + 1 };
+    };
+
+    const frames: GifFrame[] = [];
+    let loopCount = 1;
+    let control = { disposal: 0, delay: 0, transparentIndex: null as number | null };
+
+    while (offset < bytes.length) {
+        const marker = bytes[offset];
+
+        if (marker === 0x3b) break; // Trailer
+
+        if (marker === 0x21) {
+            const label = bytes[offset + 1];
+            const { data, end } = readSubBlocks(offset + 2);
+            if (label === 0xf9 && data.length >= 4) {
+                control = {
+                    disposal: (data[0] >> 2) & 0x07,
+                    delay: (data[1] | (data[2] << 8)) * 10,
+                    transparentIndex: data[0] & 0x01 ? data[3] : null
+                };
+            } else if (label === 0xff && data.length >= 14) {
+                const application = String.fromCharCode(...data.subarray(0, 11));
+                if ((application === 'NETSCAPE2.0' || application === 'ANIMEXTS1.0') && data[11] === 1) {
+                    loopCount = data[12] | (data[13] << 8);
+                }
+            }
+            offset = end;
+            continue;
+        }
+
+        if (marker !== 0x2c) {
+            throw new Error(`GIF corrompido: bloco desconhecido 0x${marker.toString(16)} na posição ${offset}.`);
+        }
+
+        const left = view.getUint16(offset + 1, true);
+        const top = view.getUint16(offset + 3, true);
+        const frameWidth = view.getUint16(offset + 5, true);
+        const frameHeight = view.getUint16(offset + 7, true);
+        const flags = bytes[offset + 9];
+        offset += 10;
+        let palette = globalPalette;
+        if (flags & 0x80) {
+            const length = 3 * (1 << ((flags & 0x07) + 1));
+            palette = bytes.subarray(offset, offset + length);
+            offset += length;
+        }
+        const minCodeSize = bytes[offset];
+        const { data, end } = readSubBlocks(offset + 1);
+
+        frames.push({
+            left,
+            top,
+            width: frameWidth,
+            height: frameHeight,
+            interlaced: (flags & 0x40) !== 0,
+            palette,
+            transparentIndex: control.transparentIndex,
+            disposal: control.disposal,
+            delay: control.delay < MIN_DELAY_MS ? DEFAULT_DELAY_MS : control.delay,
+            minCodeSize,
+            data
+        });
+        control = { disposal: 0, delay: 0, transparentIndex: null };
+        offset = end;
+    }
+
+    if (frames.length === 0) {
+        throw new Error('GIF corrompido: nenhum quadro encontrado.');
+    }
+    return { width, height, loopCount, frames };
+};
+
+// Descomprimir o LZW de um quadro em índices da paleta
+const decodeLzw = (minCodeSize: number, data: Uint8Array, pixelCount: number): Uint8Array => {
+    const output = new Uint8Array(pixelCount);
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const prefix = new Int16Array(4096);
+    const suffix = new Uint8Array(4096);
+    const stack = new Uint8Array(4097);
+    for (let i = 0; i < clearCode; i++) {
+        suffix[i] = i;
+    }
+
+    let codeSize = minCodeSize + 1;
+    let codeMask = (1 << codeSize) - 1;
+    let nextCode = endCode + 1;
+    let previous = -1;
+    let first = 0;
+    let bits = 0;
+    let buffer = 0;
+    let written = 0;
+
+    for (let i = 0; i < data.length && written < pixelCount; i++) {
+        buffer |= data[i] << bits;
+        bits += 8;
+
+        while (bits >= codeSize && written < pixelCount) {
+            let code = buffer & codeMask;
+            buffer >>>= codeSize;
+            bits -= codeSize;
+
+            if (code === clearCode) {
+                codeSize = minCodeSize + 1;
+                codeMask = (1 << codeSize) - 1;
+                nextCode = endCode + 1;
+                previous = -1;
+                continue;
+            }
+            if (code === endCode) {
+                return output;
+            }
+            if (previous === -1) {
+                output[written++] = suffix[code];
+                previous = code;
+                first = code;
+                continue;
+            }
+
+            const current = code;
+            let top = 0;
+            // Código ainda não definido (caso KwKwK): repete o primeiro símbolo
+            if (code >= nextCode) {
+                stack[top++] = first;
+                code = previous;
+            }
+            while (code >= clearCode) {
+                stack[top++] = suffix[code];
+                code = prefix[code];
+            }
+            first = suffix[code];
+            stack[top++] = first;
+
+            if (nextCode < 4096) {
+                prefix[nextCode] = previous;
+                suffix[nextCode] = first;
+                nextCode++;
+                if (nextCode > codeMask && codeSize < 12) {
+                    codeSize++;
+                    codeMask = (1 << codeSize) - 1;
+                }
+            }
+            previous = current;
+
+            while (top > 0 && written < pixelCount) {
+                output[written++] = stack[--top];
+            }
+        }
+    }
+    // Quadros truncados ficam com o restante no índice 0, como nos navegadores
+    return output;
+};
+
+// Ordem das linhas de um quadro entrelaçado: 4 passadas
+const interlacedRows = (height: number): number[] => {
+    const rows: number[] = [];
+    for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+        for (let y = start; y < height; y += step) {
+            rows.push(y);
+        }
+    }
+    return rows;
+};
+
+// Compor os quadros em sequência, aplicando transparência e descarte
+export function* renderGifFrames(gif: GifImage): Generator<GifFrameImage> {
+    const { width, height } = gif;
+    const canvas = new Uint8ClampedArray(width * height * 4);
+    let restore: Uint8ClampedArray | null = null;
+    let previous: GifFrame | null = null;
+
+    for (const frame of gif.frames) {
+        // O descarte do quadro anterior acontece antes de desenhar o próximo
+        if (previous?.disposal === 2) {
+            for (let y = previous.top; y < Math.min(height, previous.top + previous.height); y++) {
+                const start = (y * width + previous.left) * 4;
+                const end = (y * width + Math.min(width, previous.left + previous.width)) * 4;
+                canvas.fill(0, start, end);
+            }
+        } else if (previous?.disposal === 3 && restore) {
+            canvas.set(restore);
+        }
+        restore = frame.disposal === 3 ? canvas.slice() : null;
+
+        const indices = decodeLzw(frame.minCodeSize, frame.data, frame.width * frame.height);
+        const rows = frame.interlaced ? interlacedRows(frame.height) : null;
+        const { palette, transparentIndex } = frame;
+
+        for (let row = 0; row < frame.height; row++) {
+            const y = frame.top + (rows ? rows[row] : row);
+            if (y >= height) continue;
+            for (let x = 0; x < frame.width; x++) {
+                const canvasX = frame.left + x;
+                if (canvasX >= width) break;
+                const index = indices[row * frame.width + x];
+                if (index === transparentIndex || index * 3 + 2 >= palette.length) continue;
+                const p = (y * width + canvasX) * 4;
+                canvas[p] = palette[index * 3];
+                canvas[p + 1] = palette[index * 3 + 1];
+                canvas[p + 2] = palette[index * 3 + 2];
+                canvas[p + 3] = 255;
+            }
+        }
+
+        yield { pixels: canvas, delay: frame.delay };
+        previous = frame;
+    }
+}
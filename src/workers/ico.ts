@@ -0,0 +1,43 @@
+// Decodificador de ICO/CUR: escolhe a maior imagem do arquivo. Entradas PNG
+// são devolvidas como Blob para o decodificador nativo; as demais são DIBs.
+import { decodeDib } from './bmp';
+
+export const isIco = (bytes: Uint8Array): boolean =>
+    bytes.length >= 6 && bytes[0] === 0 && bytes[1] === 0 && (bytes[2] === 1 || bytes[2] === 2) && bytes[3] === 0 &&
+    (bytes[4] | (bytes[5] << 8)) > 0;
+
+export const decodeIco = (bytes: Uint8Array): ImageData | Blob => {
+    if (!isIco(bytes)) {
+        throw new Error('O arquivo não é um ícone ICO válido.');
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const count = view.getUint16(4, true);
+
+    // Maior área primeiro; no empate, mais bits por pixel
+    let best: { area: number; bitCount: number; size: number; offset: number } | null = null;
+    for (let i = 0; i < count; i++) {
+        const entry = 6 + i * 16;
+        if (entry + 16 > bytes.length) break;
+        const width = bytes[entry] || 256;
+        const height = bytes[entry + 1] || 256;
+        const candidate = {
+            area: width * height,
+            bitCount: view.getUint16(entry + 6, true),
+            size: view.getUint32(entry + 8, true),
+            offset: view.getUint32(entry + 12, true)
+        };
+        if (candidate.offset + candidate.size > bytes.length) continue;
+        if (!best || candidate.area > best.area || (candidate.area === best.area && candidate.bitCount > best.bitCount)) {
+            best = candidate;
+        }
+    }
+    if (!best) {
+        throw new Error('ICO corrompido: nenhuma imagem dentro do arquivo.');
+    }
+
+    const data = bytes.subarray(best.offset, best.offset + best.size);
+    if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+        return new Blob([data], { type: 'image/png' });
+    }
+    return decodeDib(data, 0, { icon: true });
+};
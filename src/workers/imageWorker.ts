@@ -0,0 +1,681 @@
+// Web Worker para processamento de imagens
+import type {
+    AnimationJobRequest,
+    ConversionJobRequest,
+    ConversionResult,
+    CropRect,
+    EncodingProfile,
+    FitMode,
+    ImageInput,
+    OutputFormat,
+    ResponsiveJobRequest,
+    ResponsiveResult,
+    ResponsiveVariant,
+    WorkerRequest,
+    WorkerResponse
+} from './protocol';
+import { isLossyFormat, supportsAlpha } from '@/utils/formats';
+import { applyBackground, needsBackgroundPass } from '@/utils/background';
+import { getResponsiveHeight } from '@/utils/profiles';
+import { readImageMetadata } from '@/utils/metadata';
+import {
+    buildTemplateMetadata,
+    embedMetadata,
+    estimateMetadataOverhead,
+    supportsMetadataEmbedding
+} from '@/utils/metadataWriter';
+import { computeFitLayout, computeTrimmedLayout, drawBlurredBackground, scaleLayout, type FitLayout } from './fit';
+import { findSmartCrop } from './smartCrop';
+import { analyzeProductFrame } from './productAnalysis';
+import { findTrimRegion } from './trim';
+import { createEncoder, searchQualityForBudget, searchQualityForSsim, type EncodedImage } from './qualitySearch';
+import { compareImages, decodeToImageData, type ImageMetrics } from './metrics';
+import { resampleImage, type SourceRegion } from './resample';
+import { applyOrientation, browserAppliesOrientation } from './orientation';
+import { isGif, parseGif, renderGifFrames, type GifImage } from './gif';
+import { decodeWithFallback } from './fallbackDecoders';
+import {
+    createAnimationEncoder,
+    createBackgroundSource,
+    createGifSource,
+    createSlideshowSource,
+    type AnimationPaint,
+    type AnimationSource
+} from './animation';
+
+const respond = (response: WorkerResponse) => {
+    self.postMessage(response);
+};
+
+// Jobs em andamento e, entre eles, os cancelados pela UI; o cancelamento é
+// verificado entre cada etapa cara do processamento
+const runningJobs = new Set<number>();
+const cancelledJobs = new Set<number>();
+
+class JobCancelledError extends Error {}
+
+const throwIfCancelled = (jobId: number) => {
+    if (cancelledJobs.has(jobId)) {
+        throw new JobCancelledError();
+    }
+};
+
+type OptimizedImage = EncodedImage & Partial<ImageMetrics> & { encodes: number };
+
+// Codificar o canvas no formato do perfil, buscando a qualidade que cabe no orçamento
+const generateOptimizedImage = async (
+    canvas: OffscreenCanvas,
+    jobId: number,
+    profile: EncodingProfile,
+    reservedBytes: number
+): Promise<OptimizedImage> => {
+    const encoder = createEncoder(canvas, profile.format, () => throwIfCancelled(jobId));
+
+    // Formatos sem perdas ignoram a qualidade: uma única codificação basta
+    if (!isLossyFormat(profile.format)) {
+        const encoded = await encoder.encode(1);
+        return { ...encoded, encodes: encoder.count() };
+    }
+
+    if (profile.target === 'ssim') {
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+        }
+        const reference = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const measure = async (candidate: EncodedImage) => {
+            throwIfCancelled(jobId);
+            const decoded = await decodeToImageData(candidate.blob, canvas.width, canvas.height);
+            return compareImages(reference, decoded);
+        };
+        const encoded = await searchQualityForSsim(encoder, measure, profile.minSsim);
+        return { ...encoded, encodes: encoder.count() };
+    }
+
+    const encoded = await searchQualityForBudget(
+        encoder,
+        Math.max(0, profile.minKB * 1024 - reservedBytes),
+        profile.maxKB * 1024 - reservedBytes
+    );
+    return { ...encoded, encodes: encoder.count() };
+};
+
+// Formatos que o navegador não decodifica (TIFF, BMP e ICO em alguns navegadores)
+// passam pelos decodificadores em TypeScript
+const decodeFallback = async (bytes: ArrayBuffer): Promise<ImageBitmap> => {
+    const decoded = decodeWithFallback(new Uint8Array(bytes));
+    if (!decoded) {
+        throw new Error('O navegador não conseguiu decodificar esta imagem.');
+    }
+    const bitmap = await createImageBitmap(decoded.image);
+    return decoded.orientation === 1 ? bitmap : applyOrientation(bitmap, decoded.orientation);
+};
+
+// Decodificar a entrada; um ImageBitmap transferido já chega pronto para uso.
+// Arquivos têm a orientação EXIF aplicada, pelo navegador ou por nós.
+const decodeInput = async (input: ImageInput): Promise<ImageBitmap> => {
+    if (input instanceof ImageBitmap) {
+        return input;
+    }
+    const blob = input instanceof Blob ? input : new Blob([input]);
+    const bytes = input instanceof ArrayBuffer ? input : await blob.arrayBuffer();
+    const { format, orientation } = readImageMetadata(bytes);
+
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch {
+        return decodeFallback(bytes);
+    }
+
+    // No HEIF quem manda é a rotação do contêiner (irot), que o decodificador já aplica
+    if (orientation === 1 || format === null || format === 'heif' || await browserAppliesOrientation(format)) {
+        return bitmap;
+    }
+    return applyOrientation(bitmap, orientation);
+};
+
+// Codificar uma animação inteira com uma qualidade comum a todos os quadros. O
+// objetivo SSIM não se aplica: a busca é sempre pela faixa de tamanho do perfil.
+const generateOptimizedAnimation = async (
+    source: AnimationSource,
+    frame: FitLayout,
+    paint: AnimationPaint,
+    jobId: number,
+    profile: EncodingProfile,
+    reservedBytes: number,
+    onLastFrame?: (canvas: OffscreenCanvas) => void
+): Promise<OptimizedImage> => {
+    const encoder = createAnimationEncoder(
+        source,
+        frame,
+        paint,
+        () => throwIfCancelled(jobId),
+        // Cada passada codifica todos os quadros: avisa o pool para renovar o prazo
+        (lastFrame) => {
+            respond({ id: jobId, status: 'progress' });
+            onLastFrame?.(lastFrame);
+        }
+    );
+    const encoded = await searchQualityForBudget(
+        encoder,
+        Math.max(0, profile.minKB * 1024 - reservedBytes),
+        profile.maxKB * 1024 - reservedBytes
+    );
+    return { ...encoded, encodes: encoder.count() };
+};
+
+// Codificar o quadro no orçamento do perfil: reserva o espaço dos metadados,
+// reduz as dimensões no orçamento rígido e grava os metadados no resultado
+const encodeForProfile = async (
+    layout: FitLayout,
+    profile: EncodingProfile,
+    encodeFrame: (frame: FitLayout, reservedBytes: number) => Promise<OptimizedImage>
+): Promise<ConversionResult> => {
+    const { canvasWidth, canvasHeight } = layout;
+    const maxBytes = profile.maxKB * 1024;
+    // Os metadados do perfil entram depois da codificação; o espaço deles sai do orçamento
+    const metadata = supportsMetadataEmbedding(profile.format) ? buildTemplateMetadata(profile.metadata) : null;
+    const reservedBytes = metadata ? estimateMetadataOverhead(metadata) : 0;
+    const imageBudget = maxBytes - reservedBytes;
+
+    let frame = layout;
+    let encoded = await encodeFrame(frame, reservedBytes);
+    let encodes = encoded.encodes;
+
+    if (profile.strictBudget && encoded.size > imageBudget) {
+        // Menor escala permitida; um quadro já menor que o mínimo não é reduzido
+        const minScale = Math.min(1, Math.max(
+            profile.minWidth / canvasWidth,
+            profile.minHeight / canvasHeight
+        ));
+        let scale = 1;
+
+        while (encoded.size > imageBudget && scale > minScale) {
+            // O tamanho cresce com a área: estimar a escala pela raiz da razão,
+            // com folga, sem passos tão pequenos que não avancem
+            const step = Math.min(0.9, Math.max(0.5, Math.sqrt(Math.max(0, imageBudget) / encoded.size) * 0.95));
+            scale = Math.max(minScale, scale * step);
+            frame = scaleLayout(layout, scale);
+            encoded = await encodeFrame(frame, reservedBytes);
+            encodes += encoded.encodes;
+        }
+
+        if (encoded.size > imageBudget) {
+            throw new Error(
+                `Orçamento impossível: mesmo em ${frame.canvasWidth}×${frame.canvasHeight} px com qualidade ` +
+                `${Math.round(encoded.quality * 100)}% a imagem ficou com ${((encoded.size + reservedBytes) / 1024).toFixed(1)} KB ` +
+                `(máximo ${profile.maxKB} KB).`
+            );
+        }
+    }
+
+    let blob = encoded.blob;
+    if (metadata) {
+        const bytes = embedMetadata(new Uint8Array(await blob.arrayBuffer()), metadata);
+        blob = new Blob([bytes], { type: blob.type });
+    }
+
+    return {
+        blob,
+        size: blob.size,
+        quality: encoded.quality,
+        encodes,
+        ssim: encoded.ssim,
+        psnr: encoded.psnr,
+        width: frame.canvasWidth,
+        height: frame.canvasHeight,
+        withinBudget: blob.size <= maxBytes
+    };
+};
+
+// Codificar quadros de um renderer; com regras de marketplace ou corte
+// automático, o último quadro renderizado (o que foi codificado) é analisado
+const encodeRendered = async (
+    layout: FitLayout,
+    profile: EncodingProfile,
+    jobId: number,
+    render: (frame: FitLayout, format: OutputFormat) => OffscreenCanvas
+): Promise<ConversionResult> => {
+    const last: { canvas?: OffscreenCanvas } = {};
+    const result = await encodeForProfile(layout, profile, (frame, reservedBytes) => {
+        last.canvas = render(frame, profile.format);
+        return generateOptimizedImage(last.canvas, jobId, profile, reservedBytes);
+    });
+    const ctx = profile.compliance.enabled || profile.trim.enabled ? last.canvas?.getContext('2d') : null;
+    if (!ctx) {
+        return result;
+    }
+    const { width, height } = ctx.canvas;
+    return { ...result, analysis: analyzeProductFrame(ctx.getImageData(0, 0, width, height), profile.trim.tolerance) };
+};
+
+interface FrameRenderer {
+    layout: FitLayout;
+    // Região da origem usada nos modos cover/smart
+    crop?: CropRect;
+    // O formato decide se a transparência precisa ser achatada
+    render: (frame: FitLayout, format: OutputFormat) => OffscreenCanvas;
+}
+
+// Enquadrar o bitmap no tamanho pedido e preparar o desenho do quadro de saída;
+// com trimRegion só essa região é desenhada, centrada com a margem do perfil
+const createFrameRenderer = (
+    imageBitmap: ImageBitmap,
+    jobId: number,
+    profile: EncodingProfile,
+    fit: FitMode,
+    targetWidth: number,
+    targetHeight: number,
+    trimRegion?: CropRect | null
+): FrameRenderer => {
+    let layout = trimRegion
+        ? computeTrimmedLayout(trimRegion, targetWidth, targetHeight, profile.trim.marginPercent / 100)
+        : computeFitLayout(
+            imageBitmap.width,
+            imageBitmap.height,
+            targetWidth,
+            targetHeight,
+            fit === 'smart' ? 'cover' : fit
+        );
+
+    if (fit === 'smart' && !trimRegion) {
+        const smartCrop = findSmartCrop(imageBitmap, layout.canvasWidth / layout.canvasHeight);
+        layout = { ...layout, sx: smartCrop.x, sy: smartCrop.y, sWidth: smartCrop.width, sHeight: smartCrop.height };
+    }
+    const crop = !trimRegion && (fit === 'cover' || fit === 'smart')
+        ? { x: layout.sx, y: layout.sy, width: layout.sWidth, height: layout.sHeight }
+        : undefined;
+    // A margem do corte automático é preenchida como as do contain
+    const padded = fit === 'contain' || Boolean(trimRegion);
+
+    // Pixels da região de origem para o motor de reamostragem, lidos uma só vez
+    // mesmo quando o orçamento rígido renderiza o quadro várias vezes
+    let source: { image: ImageData; region: SourceRegion } | null = null;
+    const getSource = () => {
+        if (!source) {
+            const x0 = Math.floor(layout.sx);
+            const y0 = Math.floor(layout.sy);
+            const width = Math.ceil(layout.sx + layout.sWidth) - x0;
+            const height = Math.ceil(layout.sy + layout.sHeight) - y0;
+            const sourceCanvas = new OffscreenCanvas(width, height);
+            const sourceCtx = sourceCanvas.getContext('2d', { willReadFrequently: true });
+            if (!sourceCtx) {
+                throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+            }
+            sourceCtx.drawImage(imageBitmap, -x0, -y0);
+            source = {
+                image: sourceCtx.getImageData(0, 0, width, height),
+                region: { x: layout.sx - x0, y: layout.sy - y0, width: layout.sWidth, height: layout.sHeight }
+            };
+        }
+        return source;
+    };
+
+    const draw = (frame: FitLayout): OffscreenCanvas => {
+        const canvas = new OffscreenCanvas(frame.canvasWidth, frame.canvasHeight);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+        }
+
+        // Use high-quality image smoothing
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+
+        if (padded && profile.padColor !== 'transparent') {
+            ctx.fillStyle = profile.padColor;
+            ctx.fillRect(0, 0, frame.canvasWidth, frame.canvasHeight);
+        } else if (fit === 'blur') {
+            drawBlurredBackground(ctx, imageBitmap, frame.canvasWidth, frame.canvasHeight);
+        }
+
+        if (profile.resampleFilter === 'browser') {
+            ctx.drawImage(
+                imageBitmap,
+                frame.sx, frame.sy, frame.sWidth, frame.sHeight,
+                frame.dx, frame.dy, frame.dWidth, frame.dHeight
+            );
+            return canvas;
+        }
+
+        throwIfCancelled(jobId);
+        const { image, region } = getSource();
+        const resampled = resampleImage(image, region, frame.dWidth, frame.dHeight, {
+            filter: profile.resampleFilter,
+            linearLight: profile.linearLight,
+            premultiplyAlpha: profile.premultiplyAlpha,
+            sharpenAmount: profile.sharpenAmount
+        });
+        // Desenhar (em vez de putImageData) para compor sobre a cor ou o fundo desfocado
+        const resampledCanvas = new OffscreenCanvas(frame.dWidth, frame.dHeight);
+        resampledCanvas.getContext('2d')?.putImageData(resampled, 0, 0);
+        ctx.drawImage(resampledCanvas, frame.dx, frame.dy);
+        return canvas;
+    };
+
+    // Etapas de fundo do perfil sobre o quadro pronto, incluindo as margens
+    const render = (frame: FitLayout, format: OutputFormat): OffscreenCanvas => {
+        const canvas = draw(frame);
+        const forceFlatten = !supportsAlpha(format);
+        if (!needsBackgroundPass(profile.background, forceFlatten)) {
+            return canvas;
+        }
+        throwIfCancelled(jobId);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+        }
+        const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        applyBackground(image, profile.background, forceFlatten);
+        ctx.putImageData(image, 0, 0);
+        return canvas;
+    };
+
+    return { layout, crop, render };
+};
+
+// Um GIF com mais de um quadro; os demais (e GIFs estáticos) seguem como imagem
+const readAnimatedGif = async (input: ImageInput): Promise<GifImage | null> => {
+    if (input instanceof ImageBitmap) {
+        return null;
+    }
+    const blob = input instanceof Blob ? input : new Blob([input]);
+    if (!isGif(new Uint8Array(await blob.slice(0, 6).arrayBuffer()))) {
+        return null;
+    }
+    const gif = parseGif(new Uint8Array(await blob.arrayBuffer()));
+    return gif.frames.length > 1 ? gif : null;
+};
+
+// Região a manter em um GIF: a união do conteúdo de todos os quadros, para que
+// o produto não seja cortado quando se move. Um quadro sem borda uniforme conta
+// inteiro; null quando não sobra nada para cortar.
+const findGifTrimRegion = (gif: GifImage, jobId: number, tolerance: number): CropRect | null => {
+    const canvas = new OffscreenCanvas(gif.width, gif.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+    }
+    let x0 = gif.width;
+    let y0 = gif.height;
+    let x1 = 0;
+    let y1 = 0;
+    for (const { pixels } of renderGifFrames(gif)) {
+        throwIfCancelled(jobId);
+        ctx.putImageData(new ImageData(pixels, gif.width, gif.height), 0, 0);
+        const region = findTrimRegion(canvas, tolerance);
+        if (!region) {
+            return null;
+        }
+        x0 = Math.min(x0, region.x);
+        y0 = Math.min(y0, region.y);
+        x1 = Math.max(x1, region.x + region.width);
+        y1 = Math.max(y1, region.y + region.height);
+    }
+    if (x1 <= x0 || y1 <= y0 || (x0 === 0 && y0 === 0 && x1 === gif.width && y1 === gif.height)) {
+        return null;
+    }
+    return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+// GIF animado -> WebP animado, com o mesmo enquadramento em todos os quadros. O
+// corte automático e as etapas de fundo do perfil valem para todos os quadros;
+// o último quadro codificado é analisado, como nas imagens estáticas.
+const processGif = async (job: ConversionJobRequest, gif: GifImage): Promise<ConversionResult> => {
+    const { id, profile, width: targetWidth, height: targetHeight } = job;
+    const fit = profile.fit;
+    const trimRegion = profile.trim.enabled ? findGifTrimRegion(gif, id, profile.trim.tolerance) : null;
+    let layout = trimRegion
+        ? computeTrimmedLayout(
+            trimRegion,
+            targetWidth || profile.width,
+            targetHeight || profile.height,
+            profile.trim.marginPercent / 100
+        )
+        : computeFitLayout(
+            gif.width,
+            gif.height,
+            targetWidth || profile.width,
+            targetHeight || profile.height,
+            fit === 'smart' ? 'cover' : fit
+        );
+
+    // O recorte inteligente é escolhido pelo primeiro quadro e vale para todos
+    if (fit === 'smart' && !trimRegion) {
+        const first = renderGifFrames(gif).next();
+        if (!first.done) {
+            const firstFrame = new OffscreenCanvas(gif.width, gif.height);
+            firstFrame.getContext('2d')?.putImageData(new ImageData(first.value.pixels, gif.width, gif.height), 0, 0);
+            const smartCrop = findSmartCrop(firstFrame, layout.canvasWidth / layout.canvasHeight);
+            layout = { ...layout, sx: smartCrop.x, sy: smartCrop.y, sWidth: smartCrop.width, sHeight: smartCrop.height };
+        }
+    }
+    const crop = !trimRegion && (fit === 'cover' || fit === 'smart')
+        ? { x: layout.sx, y: layout.sy, width: layout.sWidth, height: layout.sHeight }
+        : undefined;
+
+    const gifSource = createGifSource(gif);
+    // A margem do corte automático é preenchida como as do contain
+    const paint = { fit: trimRegion ? 'contain' as const : fit, padColor: profile.padColor };
+    // Com etapas de fundo, os quadros são enquadrados e tratados uma só vez; as
+    // passadas da busca só os codificam (e reduzem, no orçamento rígido)
+    const prepared = needsBackgroundPass(profile.background)
+        ? await createBackgroundSource(gifSource, layout, paint, profile.background, () => throwIfCancelled(id))
+        : null;
+
+    try {
+        const source = prepared?.source ?? gifSource;
+        const sourceLayout = prepared
+            ? computeFitLayout(source.width, source.height, source.width, source.height, 'stretch')
+            : layout;
+        const sourcePaint = prepared ? { fit: 'stretch' as const, padColor: profile.padColor } : paint;
+        const last: { canvas?: OffscreenCanvas } = {};
+        const result = await encodeForProfile(sourceLayout, profile, (frame, reservedBytes) =>
+            generateOptimizedAnimation(source, frame, sourcePaint, id, profile, reservedBytes, canvas => {
+                last.canvas = canvas;
+            })
+        );
+
+        const ctx = profile.compliance.enabled || profile.trim.enabled ? last.canvas?.getContext('2d') : null;
+        const analysis = ctx
+            ? analyzeProductFrame(ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height), profile.trim.tolerance)
+            : undefined;
+        return {
+            ...result,
+            frames: source.frameCount,
+            crop,
+            ...(analysis && { analysis }),
+            ...(profile.trim.enabled && { trimmed: trimRegion !== null })
+        };
+    } finally {
+        prepared?.close();
+    }
+};
+
+const processJob = async (job: ConversionJobRequest): Promise<ConversionResult> => {
+    const { id, type, input, profile, width: targetWidth, height: targetHeight } = job;
+
+    // createImageBitmap só decodifica o primeiro quadro de um GIF
+    if (type === 'CONVERT' && profile.format === 'image/webp') {
+        const gif = await readAnimatedGif(input);
+        throwIfCancelled(id);
+        if (gif) {
+            return processGif(job, gif);
+        }
+    }
+
+    const imageBitmap = await decodeInput(input);
+    if (cancelledJobs.has(id)) {
+        imageBitmap.close();
+        throw new JobCancelledError();
+    }
+
+    try {
+        // Use provided dimensions or the profile's output size; a saved crop is
+        // already framed by the user, so it is only stretched to those dimensions
+        const trimRegion = type === 'CONVERT' && profile.trim.enabled
+            ? findTrimRegion(imageBitmap, profile.trim.tolerance)
+            : null;
+        const { layout, crop, render } = createFrameRenderer(
+            imageBitmap,
+            id,
+            profile,
+            type === 'CONVERT' ? profile.fit : 'stretch',
+            targetWidth || profile.width,
+            targetHeight || profile.height,
+            trimRegion
+        );
+        const result = await encodeRendered(layout, profile, id, render);
+        return type === 'CONVERT' && profile.trim.enabled
+            ? { ...result, crop, trimmed: trimRegion !== null }
+            : { ...result, crop };
+    } finally {
+        imageBitmap.close();
+    }
+};
+
+// Slideshow do lote: cada imagem é enquadrada no tamanho do perfil e vira um
+// quadro de um WebP animado, qualquer que seja o formato do perfil
+const processAnimation = async (job: AnimationJobRequest): Promise<ConversionResult> => {
+    const { id, inputs, durations, loopCount } = job;
+    const profile: EncodingProfile = { ...job.profile, format: 'image/webp' };
+    if (inputs.length === 0) {
+        throw new Error('Selecione ao menos uma imagem para o slideshow.');
+    }
+
+    // Todos os quadros têm o mesmo tamanho: "inside" vira "contain"
+    const fit = profile.fit === 'inside' ? 'contain' : profile.fit;
+    const slides: ImageBitmap[] = [];
+
+    try {
+        for (const input of inputs) {
+            const imageBitmap = await decodeInput(input);
+            try {
+                throwIfCancelled(id);
+                const { layout, render } = createFrameRenderer(imageBitmap, id, profile, fit, profile.width, profile.height);
+                slides.push(render(layout, profile.format).transferToImageBitmap());
+            } finally {
+                imageBitmap.close();
+            }
+        }
+
+        const source = createSlideshowSource(slides, durations, loopCount);
+        const layout = computeFitLayout(source.width, source.height, source.width, source.height, 'stretch');
+        const paint = { fit: 'stretch' as const, padColor: profile.padColor };
+        const result = await encodeForProfile(layout, profile, (frame, reservedBytes) =>
+            generateOptimizedAnimation(source, frame, paint, id, profile, reservedBytes)
+        );
+        return { ...result, frames: source.frameCount };
+    } finally {
+        slides.forEach(slide => slide.close());
+    }
+};
+
+// Exportação responsiva: decodifica e enquadra uma vez (o recorte inteligente
+// também é escolhido uma só vez) e codifica cada largura em cada formato, com
+// o teto em KB da largura e a mesma faixa relativa do perfil
+const processResponsive = async (job: ResponsiveJobRequest): Promise<ResponsiveResult> => {
+    const { id, input, profile, aspectRatio } = job;
+    const { widths, formats } = profile.responsive;
+    if (widths.length === 0 || formats.length === 0) {
+        throw new Error('O perfil não define larguras e formatos para a exportação responsiva.');
+    }
+
+    const imageBitmap = await decodeInput(input);
+    try {
+        throwIfCancelled(id);
+        // Entrada já enquadrada pelo usuário: só é redimensionada
+        const fit: FitMode = aspectRatio ? 'stretch' : profile.fit;
+        const heightOf = (width: number) => aspectRatio
+            ? Math.max(1, Math.round(width / aspectRatio))
+            : getResponsiveHeight(profile, width);
+
+        const trimRegion = !aspectRatio && profile.trim.enabled
+            ? findTrimRegion(imageBitmap, profile.trim.tolerance)
+            : null;
+
+        const sorted = [...widths].sort((a, b) => b.width - a.width);
+        const largest = sorted[0].width;
+        const { layout, crop, render } = createFrameRenderer(
+            imageBitmap, id, profile, fit, largest, heightOf(largest), trimRegion
+        );
+
+        // "inside" nunca amplia: larguras acima da imagem repetiriam a mesma
+        // variante e são descartadas (o srcset não aceita larguras repetidas)
+        const frames: { frame: FitLayout; maxKB: number }[] = [];
+        for (const { width, maxKB } of sorted) {
+            const frame = fit === 'inside' && !trimRegion
+                ? computeFitLayout(imageBitmap.width, imageBitmap.height, width, heightOf(width), 'inside')
+                : scaleLayout(layout, width / largest);
+            if (!frames.some(existing => existing.frame.canvasWidth === frame.canvasWidth)) {
+                frames.push({ frame, maxKB });
+            }
+        }
+
+        const variants: ResponsiveVariant[] = [];
+        for (const format of formats) {
+            for (const { frame, maxKB } of frames) {
+                throwIfCancelled(id);
+                const variantProfile: EncodingProfile = {
+                    ...profile,
+                    format,
+                    width: frame.canvasWidth,
+                    height: frame.canvasHeight,
+                    maxKB,
+                    minKB: profile.maxKB > 0 ? maxKB * (profile.minKB / profile.maxKB) : 0,
+                    minWidth: Math.max(1, Math.round(profile.minWidth * frame.canvasWidth / layout.canvasWidth)),
+                    minHeight: Math.max(1, Math.round(profile.minHeight * frame.canvasHeight / layout.canvasHeight))
+                };
+                const result = await encodeRendered(frame, variantProfile, id, render);
+                variants.push({ ...result, format, maxKB });
+                // Cada variante é uma codificação completa: renovar o prazo do job
+                respond({ id, status: 'progress' });
+            }
+        }
+        return { variants, crop };
+    } finally {
+        imageBitmap.close();
+    }
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+
+    // Health check response
+    if (request.type === 'HEALTH_CHECK') {
+        respond({ id: request.id, status: 'health' });
+        return;
+    }
+
+    // Um CANCEL que chega depois do fim do job é ignorado, senão o id ficaria no conjunto para sempre
+    if (request.type === 'CANCEL') {
+        if (runningJobs.has(request.jobId)) {
+            cancelledJobs.add(request.jobId);
+        }
+        return;
+    }
+
+    runningJobs.add(request.id);
+    try {
+        const result = request.type === 'ANIMATE'
+            ? await processAnimation(request)
+            : request.type === 'RESPONSIVE'
+                ? await processResponsive(request)
+                : await processJob(request);
+        respond({ id: request.id, status: 'success', result });
+    } catch (error) {
+        if (error instanceof JobCancelledError) {
+            respond({ id: request.id, status: 'cancelled' });
+            return;
+        }
+        respond({
+            id: request.id,
+            status: 'error',
+            message: error instanceof Error ? error.message : 'Um erro desconhecido ocorreu no worker.'
+        });
+    } finally {
+        runningJobs.delete(request.id);
+        cancelledJobs.delete(request.id);
+    }
+};
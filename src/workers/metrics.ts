@@ -0,0 +1,97 @@
+// Métricas de fidelidade entre o quadro redimensionado e a imagem decodificada
+export interface ImageMetrics {
+    ssim: number;
+    // Em dB; Infinity quando as imagens são idênticas
+    psnr: number;
+}
+
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+const toLuma = (data: Uint8ClampedArray): Float32Array => {
+    const luma = new Float32Array(data.length / 4);
+    for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+        luma[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    }
+    return luma;
+};
+
+// SSIM médio na luminância, em janelas 8×8 sobrepostas
+const computeSsim = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+    if (width < SSIM_WINDOW || height < SSIM_WINDOW) {
+        return a.every((value, i) => value === b[i]) ? 1 : 0;
+    }
+
+    const n = SSIM_WINDOW * SSIM_WINDOW;
+    let total = 0;
+    let windows = 0;
+
+    for (let y = 0; y + SSIM_WINDOW <= height; y += SSIM_STRIDE) {
+        for (let x = 0; x + SSIM_WINDOW <= width; x += SSIM_STRIDE) {
+            let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+            for (let wy = 0; wy < SSIM_WINDOW; wy++) {
+                let i = (y + wy) * width + x;
+                for (let wx = 0; wx < SSIM_WINDOW; wx++, i++) {
+                    const va = a[i];
+                    const vb = b[i];
+                    sumA += va;
+                    sumB += vb;
+                    sumAA += va * va;
+                    sumBB += vb * vb;
+                    sumAB += va * vb;
+                }
+            }
+            const meanA = sumA / n;
+            const meanB = sumB / n;
+            const varA = sumAA / n - meanA * meanA;
+            const varB = sumBB / n - meanB * meanB;
+            const covariance = sumAB / n - meanA * meanB;
+
+            total += ((2 * meanA * meanB + C1) * (2 * covariance + C2)) /
+                ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+            windows++;
+        }
+    }
+    return total / windows;
+};
+
+// PSNR sobre os canais RGB
+const computePsnr = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+    let squaredError = 0;
+    for (let p = 0; p < a.length; p += 4) {
+        for (let c = 0; c < 3; c++) {
+            const diff = a[p + c] - b[p + c];
+            squaredError += diff * diff;
+        }
+    }
+    const mse = squaredError / (a.length / 4 * 3);
+    return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+};
+
+export const compareImages = (reference: ImageData, candidate: ImageData): ImageMetrics => {
+    if (reference.width !== candidate.width || reference.height !== candidate.height) {
+        throw new Error('As imagens comparadas têm dimensões diferentes.');
+    }
+    return {
+        ssim: computeSsim(toLuma(reference.data), toLuma(candidate.data), reference.width, reference.height),
+        psnr: computePsnr(reference.data, candidate.data)
+    };
+};
+
+// Decodificar uma codificação de volta para pixels, no tamanho do quadro
+export const decodeToImageData = async (blob: Blob, width: number, height: number): Promise<ImageData> => {
+    const bitmap = await createImageBitmap(blob);
+    try {
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) {
+            throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+        }
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height);
+    } finally {
+        bitmap.close();
+    }
+};
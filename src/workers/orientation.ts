@@ -0,0 +1,70 @@
+// Orientação EXIF: alguns navegadores já giram a imagem ao decodificar, outros
+// não, e o comportamento varia por formato. Testamos uma vez por formato.
+import type { ContainerFormat } from '@/utils/metadata';
+import { buildExif, embedExif } from '@/utils/metadataWriter';
+
+const ORIENTATION_TAG = 0x0112;
+
+const TEST_MIME_TYPES: Partial<Record<ContainerFormat, string>> = {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp'
+};
+
+const appliesOrientation = new Map<ContainerFormat, Promise<boolean>>();
+
+// Codifica uma imagem 2×1 com orientação 6 (girar 90°) e confere se ela volta 1×2
+const testOrientationSupport = async (format: ContainerFormat): Promise<boolean> => {
+    const mimeType = TEST_MIME_TYPES[format];
+    if (!mimeType) return true;
+
+    try {
+        const canvas = new OffscreenCanvas(2, 1);
+        canvas.getContext('2d')?.fillRect(0, 0, 2, 1);
+        const encoded = await canvas.convertToBlob({ type: mimeType });
+        // Sem como gerar o teste, assume o comportamento atual da especificação
+        if (encoded.type !== mimeType) return true;
+
+        const bytes = embedExif(new Uint8Array(await encoded.arrayBuffer()), buildExif([{ tag: ORIENTATION_TAG, value: 6 }]));
+        const bitmap = await createImageBitmap(new Blob([bytes], { type: mimeType }), { imageOrientation: 'from-image' });
+        const rotated = bitmap.width === 1 && bitmap.height === 2;
+        bitmap.close();
+        return rotated;
+    } catch {
+        return true;
+    }
+};
+
+export const browserAppliesOrientation = (format: ContainerFormat): Promise<boolean> => {
+    let result = appliesOrientation.get(format);
+    if (!result) {
+        result = testOrientationSupport(format);
+        appliesOrientation.set(format, result);
+    }
+    return result;
+};
+
+// Aplicar a orientação EXIF (2 a 8) a um bitmap decodificado sem ela
+export const applyOrientation = (bitmap: ImageBitmap, orientation: number): ImageBitmap => {
+    const { width, height } = bitmap;
+    const transposed = orientation >= 5 && orientation <= 8;
+    const canvas = new OffscreenCanvas(transposed ? height : width, transposed ? width : height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+    }
+
+    switch (orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+        case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+        case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+        default: break;
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvas.transferToImageBitmap();
+};
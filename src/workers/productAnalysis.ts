@@ -0,0 +1,54 @@
+// Análise do quadro gerado para as regras de marketplace: fundo branco na borda,
+// quanto do quadro o produto ocupa e transparência
+import type { ImageAnalysis } from './protocol';
+import { findContentBounds } from './trim';
+
+// Abaixo disto em algum canal o pixel já não conta como branco (a compressão
+// com perdas deixa o fundo em 250–255, não em 255 exato)
+const WHITE_THRESHOLD = 245;
+const OPAQUE_ALPHA = 250;
+// Largura da borda examinada, como fração do menor lado
+const BORDER_FRACTION = 0.02;
+
+const isWhite = (data: Uint8ClampedArray, p: number): boolean =>
+    data[p + 3] >= OPAQUE_ALPHA &&
+    data[p] >= WHITE_THRESHOLD &&
+    data[p + 1] >= WHITE_THRESHOLD &&
+    data[p + 2] >= WHITE_THRESHOLD;
+
+// O preenchimento é medido contra a cor da borda (o fundo ou a cor de margem,
+// qualquer que seja), com a mesma detecção do corte automático: sem borda
+// uniforme o produto vai até as bordas, e uma imagem toda da cor da borda
+// não tem produto
+const measureFill = (image: ImageData, tolerancePercent: number): number => {
+    const bounds = findContentBounds(image, tolerancePercent);
+    if (bounds === null) return 1;
+    if (bounds === 'empty') return 0;
+    return Math.max(bounds.width / image.width, bounds.height / image.height);
+};
+
+export function analyzeProductFrame(image: ImageData, tolerancePercent: number): ImageAnalysis {
+    const { data, width, height } = image;
+    const border = Math.max(1, Math.round(Math.min(width, height) * BORDER_FRACTION));
+    let borderPixels = 0;
+    let whiteBorderPixels = 0;
+    let hasTransparency = false;
+
+    for (let y = 0; y < height; y++) {
+        const inBorderRow = y < border || y >= height - border;
+        for (let x = 0; x < width; x++) {
+            const p = (y * width + x) * 4;
+            if (data[p + 3] < 255) hasTransparency = true;
+            if (inBorderRow || x < border || x >= width - border) {
+                borderPixels++;
+                if (isWhite(data, p)) whiteBorderPixels++;
+            }
+        }
+    }
+
+    return {
+        whiteBorder: borderPixels > 0 ? whiteBorderPixels / borderPixels : 0,
+        fill: measureFill(image, tolerancePercent),
+        hasTransparency
+    };
+}
@@ -0,0 +1,227 @@
+// Tipos das mensagens trocadas entre a UI e o Web Worker de imagens
+
+export type ConversionJobType = 'CONVERT' | 'OPTIMIZE_CROPPED';
+
+export type OutputFormat = 'image/webp' | 'image/avif' | 'image/jpeg' | 'image/png';
+
+// cover: preenche o quadro cortando o excesso; contain: cabe inteira com margens
+// na cor padColor; blur: cabe inteira sobre uma cópia desfocada; stretch:
+// distorce para caber; inside: reduz para caber, sem nunca ampliar; smart:
+// como cover, mas a janela é escolhida pelo conteúdo da imagem
+export type FitMode = 'cover' | 'contain' | 'blur' | 'stretch' | 'inside' | 'smart';
+
+// Retângulo em pixels da imagem de origem
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// size: busca a qualidade que cai na faixa minKB–maxKB; ssim: a menor
+// codificação cujo SSIM em relação ao quadro redimensionado atinge minSsim
+export type QualityTarget = 'size' | 'ssim';
+
+// browser: drawImage com imageSmoothingQuality 'high'; os demais usam o motor
+// de reamostragem do worker
+export type ResampleFilter = 'browser' | 'lanczos3' | 'area' | 'bilinear';
+
+// Campos gravados como EXIF/XMP em cada arquivo gerado; vazios são omitidos e
+// {year} é trocado pelo ano da conversão
+export interface MetadataTemplate {
+  author: string;
+  copyright: string;
+  sourceUrl: string;
+}
+
+// Uma largura da exportação responsiva, com o próprio teto em KB
+export interface ResponsiveWidth {
+  width: number;
+  maxKB: number;
+}
+
+// Exportação responsiva: a mesma imagem em várias larguras e formatos num só
+// job; a altura de cada variante segue a proporção do perfil
+export interface ResponsiveOptions {
+  enabled: boolean;
+  widths: ResponsiveWidth[];
+  formats: OutputFormat[];
+}
+
+// Fundo: remove o fundo quase uniforme ligado às bordas (vira transparente) e/ou
+// achata a transparência sobre uma cor; formatos sem alfa são sempre achatados
+export interface BackgroundOptions {
+  remove: boolean;
+  // Diferença de cor ainda considerada fundo, em % da faixa de cada canal
+  tolerance: number;
+  // Largura da transição suave na borda do recorte, em px
+  feather: number;
+  flatten: boolean;
+  // Cor em hexadecimal (#rrggbb)
+  flattenColor: string;
+}
+
+// Corte automático: remove a borda de cor uniforme e centraliza o conteúdo no
+// quadro do perfil, com uma margem em cada lado (substitui o enquadramento)
+export interface TrimOptions {
+  enabled: boolean;
+  // Diferença de cor ainda considerada borda, em % da faixa de cada canal
+  tolerance: number;
+  // Margem de cada lado, em % do quadro
+  marginPercent: number;
+}
+
+// Regras de um marketplace, verificadas em cada imagem gerada com o perfil
+export interface ComplianceRules {
+  enabled: boolean;
+  // Dimensões mínimas aceitas pela loja, em px
+  minWidth: number;
+  minHeight: number;
+  // Tamanho máximo de arquivo aceito pela loja (não é o orçamento do perfil)
+  maxFileKB: number;
+  allowedFormats: OutputFormat[];
+  // Fundo branco puro exigido na foto principal
+  whiteBackground: boolean;
+  // Quanto do quadro o produto deve ocupar, pelo maior lado; 0 não verifica
+  minFillPercent: number;
+}
+
+export interface EncodingProfile {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  minKB: number;
+  maxKB: number;
+  format: OutputFormat;
+  fit: FitMode;
+  // Cor CSS das margens no modo contain, ou 'transparent'
+  padColor: string;
+  target: QualityTarget;
+  minSsim: number;
+  resampleFilter: ResampleFilter;
+  // Opções do motor de reamostragem (ignoradas com o filtro browser)
+  linearLight: boolean;
+  premultiplyAlpha: boolean;
+  sharpenAmount: number;
+  metadata: MetadataTemplate;
+  // Orçamento rígido: reduz as dimensões (até minWidth×minHeight) quando nem a
+  // menor qualidade cabe em maxKB, e falha se ainda assim não couber
+  strictBudget: boolean;
+  minWidth: number;
+  minHeight: number;
+  responsive: ResponsiveOptions;
+  trim: TrimOptions;
+  background: BackgroundOptions;
+  compliance: ComplianceRules;
+}
+
+// File/Blob são enviados por referência; ImageBitmap e ArrayBuffer são transferidos
+export type ImageInput = Blob | ImageBitmap | ArrayBuffer;
+
+export interface ConversionJobRequest {
+  id: number;
+  type: ConversionJobType;
+  input: ImageInput;
+  profile: EncodingProfile;
+  width?: number;
+  height?: number;
+}
+
+// Slideshow: as imagens são enquadradas no perfil e viram um WebP animado, com
+// uma duração em milissegundos por quadro
+export interface AnimationJobRequest {
+  id: number;
+  type: 'ANIMATE';
+  inputs: ImageInput[];
+  durations: number[];
+  // 0 repete para sempre
+  loopCount: number;
+  profile: EncodingProfile;
+}
+
+// Todas as variantes de profile.responsive a partir de uma entrada. Com
+// aspectRatio a entrada já foi enquadrada pelo usuário (editor de recorte) e
+// as alturas seguem essa proporção em vez da do perfil.
+export interface ResponsiveJobRequest {
+  id: number;
+  type: 'RESPONSIVE';
+  input: ImageInput;
+  profile: EncodingProfile;
+  aspectRatio?: number;
+}
+
+export interface HealthCheckRequest {
+  id: number;
+  type: 'HEALTH_CHECK';
+}
+
+export interface CancelJobRequest {
+  id: number;
+  type: 'CANCEL';
+  jobId: number;
+}
+
+export type JobRequest = ConversionJobRequest | AnimationJobRequest | ResponsiveJobRequest;
+
+export type WorkerRequest = JobRequest | HealthCheckRequest | CancelJobRequest;
+
+// Medidas do quadro gerado, para o relatório de conformidade e o preenchimento
+export interface ImageAnalysis {
+  // Fração dos pixels da borda que são brancos e opacos
+  whiteBorder: number;
+  // Fração do quadro ocupada pelo conteúdo não branco, pelo maior lado
+  fill: number;
+  // Algum pixel não é totalmente opaco
+  hasTransparency: boolean;
+}
+
+// Como a imagem foi efetivamente codificada
+export interface ConversionDetails {
+  width: number;
+  height: number;
+  // Qualidade do codificador entre 0 e 1 (1 para formatos sem perdas)
+  quality: number;
+  // Falso quando o resultado ficou acima de maxKB
+  withinBudget: boolean;
+  // Quantas codificações completas a busca de qualidade precisou
+  encodes: number;
+  // Fidelidade medida no modo ssim (PSNR em dB)
+  ssim?: number;
+  psnr?: number;
+  // Quantidade de quadros quando o resultado é um WebP animado
+  frames?: number;
+  // Com o corte automático ativo: se uma borda uniforme foi encontrada e removida
+  trimmed?: boolean;
+  // Presente quando o perfil tem regras de marketplace ou corte automático
+  analysis?: ImageAnalysis;
+}
+
+export interface ConversionResult extends ConversionDetails {
+  blob: Blob;
+  size: number;
+  // Região da origem usada nos modos cover/smart, para reabrir o editor nela
+  crop?: CropRect;
+}
+
+export interface ResponsiveVariant extends ConversionResult {
+  format: OutputFormat;
+  // Teto desta variante, para comparar com size
+  maxKB: number;
+}
+
+export interface ResponsiveResult {
+  // Agrupadas por formato, da maior para a menor largura
+  variants: ResponsiveVariant[];
+  crop?: CropRect;
+}
+
+export type JobResult = ConversionResult | ResponsiveResult;
+
+export type WorkerResponse =
+  | { id: number; status: 'success'; result: JobResult }
+  | { id: number; status: 'error'; message: string }
+  | { id: number; status: 'cancelled' }
+  // Jobs longos (animações e exportações responsivas) avisam a cada etapa concluída para renovar o prazo
+  | { id: number; status: 'progress' }
+  | { id: number; status: 'health' };
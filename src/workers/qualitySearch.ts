@@ -0,0 +1,166 @@
+// Busca da qualidade de codificação que atinge o objetivo do perfil: uma faixa
+// de tamanho em KB ou um SSIM mínimo
+import type { OutputFormat } from './protocol';
+import type { ImageMetrics } from './metrics';
+import { getFormatLabel } from '@/utils/formats';
+
+export interface EncodedImage {
+    blob: Blob;
+    size: number;
+    quality: number;
+}
+
+export interface Encoder {
+    encode: (quality: number) => Promise<EncodedImage>;
+    // Quantas codificações reais foram feitas (acertos do cache não contam)
+    count: () => number;
+}
+
+const MIN_QUALITY = 0.1;
+const MAX_QUALITY = 0.98;
+const MAX_SEARCH_STEPS = 8;
+// Diferenças de qualidade menores que isso quase não mudam o SSIM
+const SSIM_QUALITY_TOLERANCE = 0.03;
+
+// Os codificadores não distinguem qualidades tão próximas; arredondar também
+// faz o cache acertar quando a interpolação repete um ponto
+export const roundQuality = (quality: number) => Math.round(quality * 100) / 100;
+
+// Codificador com cache por qualidade para um canvas já desenhado
+export const createEncoder = (
+    canvas: OffscreenCanvas,
+    format: OutputFormat,
+    beforeEncode: () => void
+): Encoder => {
+    const cache = new Map<number, EncodedImage>();
+
+    const encode = async (quality: number): Promise<EncodedImage> => {
+        const key = roundQuality(quality);
+        const cached = cache.get(key);
+        if (cached) return cached;
+
+        beforeEncode();
+        const blob = await canvas.convertToBlob({ type: format, quality: key });
+        // Navegadores sem suporte ao formato devolvem PNG silenciosamente
+        if (blob.type !== format) {
+            throw new Error(`Este navegador não consegue gerar imagens ${getFormatLabel(format)}.`);
+        }
+        const encoded = { blob, size: blob.size, quality: key };
+        cache.set(key, encoded);
+        return encoded;
+    };
+
+    return { encode, count: () => cache.size };
+};
+
+// Encontrar a maior qualidade cujo tamanho cai em [minBytes, maxBytes]. O tamanho
+// cresce aproximadamente de forma exponencial com a qualidade, então cada passo
+// interpola em log(tamanho) entre os dois extremos conhecidos (regula falsi) e
+// para assim que um candidato cai dentro da faixa. Quando nem a menor qualidade
+// cabe, devolve o menor arquivo e deixa o chamador decidir.
+export const searchQualityForBudget = async (
+    encoder: Encoder,
+    minBytes: number,
+    maxBytes: number
+): Promise<EncodedImage> => {
+    const fits = (candidate: EncodedImage) => candidate.size <= maxBytes;
+    const inWindow = (candidate: EncodedImage) => fits(candidate) && candidate.size >= minBytes;
+
+    // Qualidade alta primeiro: imagens simples já cabem e terminam aqui
+    let high = await encoder.encode(MAX_QUALITY);
+    if (fits(high)) {
+        return high;
+    }
+
+    // Um ponto intermediário costuma evitar a codificação na qualidade mínima
+    let low = await encoder.encode(0.5);
+    if (inWindow(low)) {
+        return low;
+    }
+    if (!fits(low)) {
+        high = low;
+        low = await encoder.encode(MIN_QUALITY);
+        if (!fits(low)) {
+            return low;
+        }
+        if (inWindow(low)) {
+            return low;
+        }
+    }
+
+    // Agora low cabe abaixo do mínimo e high passa do máximo
+    const target = Math.log((minBytes + maxBytes) / 2 || maxBytes);
+    let lastMoved: 'low' | 'high' | null = null;
+    let sameSideMoves = 0;
+
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+        if (high.quality - low.quality <= 0.011) break;
+
+        const logLow = Math.log(Math.max(1, low.size));
+        const logHigh = Math.log(Math.max(1, high.size));
+        let quality = low.quality + (high.quality - low.quality) * (target - logLow) / (logHigh - logLow);
+
+        // Quando o mesmo extremo se move duas vezes seguidas a interpolação está
+        // convergindo devagar por um lado; um passo de bisseção destrava
+        if (sameSideMoves >= 2) {
+            quality = (low.quality + high.quality) / 2;
+        }
+        quality = Math.min(high.quality - 0.01, Math.max(low.quality + 0.01, roundQuality(quality)));
+
+        const candidate = await encoder.encode(quality);
+        if (inWindow(candidate)) {
+            return candidate;
+        }
+
+        const moved = fits(candidate) ? 'low' : 'high';
+        sameSideMoves = moved === lastMoved ? sameSideMoves + 1 : 1;
+        lastMoved = moved;
+        if (moved === 'low') {
+            low = candidate;
+        } else {
+            high = candidate;
+        }
+    }
+
+    // Sem candidato dentro da faixa: o maior que ainda cabe no máximo
+    return low;
+};
+
+// Encontrar a menor codificação cujo SSIM atinge minSsim. O SSIM cresce com a
+// qualidade, então uma bisseção basta; cada candidato é decodificado e
+// comparado com o quadro de referência pelo chamador em measure().
+export const searchQualityForSsim = async (
+    encoder: Encoder,
+    measure: (candidate: EncodedImage) => Promise<ImageMetrics>,
+    minSsim: number
+): Promise<EncodedImage & ImageMetrics> => {
+    const evaluate = async (quality: number) => {
+        const candidate = await encoder.encode(quality);
+        return { ...candidate, ...await measure(candidate) };
+    };
+
+    // Se nem a qualidade máxima atinge o alvo, ela é o melhor possível
+    let best = await evaluate(MAX_QUALITY);
+    if (best.ssim < minSsim) {
+        return best;
+    }
+
+    // Imagens simples atingem o alvo já na qualidade mínima
+    const lowest = await evaluate(MIN_QUALITY);
+    if (lowest.ssim >= minSsim) {
+        return lowest;
+    }
+
+    let low = MIN_QUALITY;
+    let high = MAX_QUALITY;
+    while (high - low > SSIM_QUALITY_TOLERANCE) {
+        const candidate = await evaluate((low + high) / 2);
+        if (candidate.ssim >= minSsim) {
+            best = candidate;
+            high = candidate.quality;
+        } else {
+            low = candidate.quality;
+        }
+    }
+    return best;
+};
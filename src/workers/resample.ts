@@ -0,0 +1,267 @@
+// Motor de reamostragem separável (horizontal e depois vertical) com filtros
+// Lanczos3, média de área e bilinear, em luz linear e com alfa pré-multiplicado
+import type { ResampleFilter } from './protocol';
+
+export interface ResampleOptions {
+    filter: Exclude<ResampleFilter, 'browser'>;
+    // Interpolar em luz linear em vez de valores sRGB
+    linearLight: boolean;
+    // Pré-multiplicar o alfa para evitar halos escuros em bordas transparentes
+    premultiplyAlpha: boolean;
+    // Intensidade da máscara de nitidez aplicada depois da redução (0 desliga)
+    sharpenAmount: number;
+}
+
+// Região da origem em coordenadas (possivelmente fracionárias) do ImageData
+export interface SourceRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface Contributions {
+    // Primeiro pixel de origem e número de pesos de cada pixel de destino
+    start: Int32Array;
+    count: Int32Array;
+    weights: Float32Array;
+    // Quantidade máxima de pesos por pixel (passo dentro de weights)
+    stride: number;
+}
+
+const sinc = (x: number) => {
+    if (x === 0) return 1;
+    const px = Math.PI * x;
+    return Math.sin(px) / px;
+};
+
+const KERNELS = {
+    bilinear: { radius: 1, weight: (x: number) => Math.max(0, 1 - Math.abs(x)) },
+    lanczos3: { radius: 3, weight: (x: number) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0) }
+};
+
+// Pesos de cada pixel de destino ao longo de um eixo. Na redução o núcleo é
+// esticado pelo fator de escala, para que cada saída cubra todos os pixels que
+// representa; a média de área usa a sobreposição exata dos intervalos.
+const computeContributions = (
+    srcSize: number,
+    regionStart: number,
+    regionLength: number,
+    dstSize: number,
+    filter: ResampleOptions['filter']
+): Contributions => {
+    const scale = dstSize / regionLength;
+    const footprint = 1 / scale;
+    const support = filter === 'area'
+        ? footprint / 2 + 1
+        : KERNELS[filter].radius * Math.max(1, footprint);
+    const stride = Math.ceil(support) * 2 + 2;
+
+    const start = new Int32Array(dstSize);
+    const count = new Int32Array(dstSize);
+    const weights = new Float32Array(dstSize * stride);
+
+    for (let i = 0; i < dstSize; i++) {
+        const center = regionStart + (i + 0.5) * footprint;
+        const left = Math.max(0, Math.floor(center - support));
+        const right = Math.min(srcSize - 1, Math.ceil(center + support));
+        let total = 0;
+        let n = 0;
+
+        for (let j = left; j <= right && n < stride; j++, n++) {
+            let weight: number;
+            if (filter === 'area') {
+                const from = Math.max(j, center - footprint / 2);
+                const to = Math.min(j + 1, center + footprint / 2);
+                weight = Math.max(0, to - from);
+            } else {
+                weight = KERNELS[filter].weight((j + 0.5 - center) * Math.min(1, scale));
+            }
+            weights[i * stride + n] = weight;
+            total += weight;
+        }
+
+        // Normalizar; perto das bordas parte do núcleo cai fora da imagem
+        if (total !== 0) {
+            for (let k = 0; k < n; k++) {
+                weights[i * stride + k] /= total;
+            }
+        }
+        start[i] = left;
+        count[i] = n;
+    }
+
+    return { start, count, weights, stride };
+};
+
+// Tabelas de conversão entre sRGB (0–255) e luz linear (0–1)
+const SRGB_TO_LINEAR = new Float32Array(256);
+for (let i = 0; i < 256; i++) {
+    const c = i / 255;
+    SRGB_TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+const LINEAR_TO_SRGB_STEPS = 4096;
+const LINEAR_TO_SRGB = new Uint8ClampedArray(LINEAR_TO_SRGB_STEPS + 1);
+for (let i = 0; i <= LINEAR_TO_SRGB_STEPS; i++) {
+    const c = i / LINEAR_TO_SRGB_STEPS;
+    const srgb = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    LINEAR_TO_SRGB[i] = Math.round(srgb * 255);
+}
+
+const clamp01 = (value: number) => (value < 0 ? 0 : value > 1 ? 1 : value);
+
+// Máscara de nitidez: soma a diferença entre a imagem e uma versão suavizada
+// por um núcleo binomial 5×5 (aproximação de uma gaussiana com sigma ≈ 1). A
+// suavização é ponderada pelo alfa para que pixels transparentes não clareiem bordas.
+const unsharpMask = (image: ImageData, amount: number) => {
+    const { width, height, data } = image;
+    const kernel = [1, 4, 6, 4, 1];
+    const temp = new Float32Array(width * height * 4);
+    const blurred = new Float32Array(width * height * 4);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = -2; k <= 2; k++) {
+                const p = (y * width + Math.min(width - 1, Math.max(0, x + k))) * 4;
+                const weight = kernel[k + 2] * data[p + 3];
+                r += weight * data[p];
+                g += weight * data[p + 1];
+                b += weight * data[p + 2];
+                a += weight;
+            }
+            const t = (y * width + x) * 4;
+            temp[t] = r;
+            temp[t + 1] = g;
+            temp[t + 2] = b;
+            temp[t + 3] = a;
+        }
+    }
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = -2; k <= 2; k++) {
+                const t = (Math.min(height - 1, Math.max(0, y + k)) * width + x) * 4;
+                r += kernel[k + 2] * temp[t];
+                g += kernel[k + 2] * temp[t + 1];
+                b += kernel[k + 2] * temp[t + 2];
+                a += kernel[k + 2] * temp[t + 3];
+            }
+            const o = (y * width + x) * 4;
+            blurred[o] = r;
+            blurred[o + 1] = g;
+            blurred[o + 2] = b;
+            blurred[o + 3] = a;
+        }
+    }
+
+    for (let p = 0; p < data.length; p += 4) {
+        const weight = blurred[p + 3];
+        if (weight === 0 || data[p + 3] === 0) continue;
+        for (let c = 0; c < 3; c++) {
+            const original = data[p + c];
+            data[p + c] = original + amount * (original - blurred[p + c] / weight);
+        }
+    }
+};
+
+// Reamostrar uma região do ImageData de origem para dstWidth×dstHeight
+export const resampleImage = (
+    source: ImageData,
+    region: SourceRegion,
+    dstWidth: number,
+    dstHeight: number,
+    options: ResampleOptions
+): ImageData => {
+    const { filter, linearLight, premultiplyAlpha, sharpenAmount } = options;
+    const srcWidth = source.width;
+    const src = source.data;
+
+    const horizontal = computeContributions(srcWidth, region.x, region.width, dstWidth, filter);
+    const vertical = computeContributions(source.height, region.y, region.height, dstHeight, filter);
+
+    // Só as linhas de origem usadas pela passada vertical são processadas
+    let firstRow = source.height;
+    let lastRow = 0;
+    for (let i = 0; i < dstHeight; i++) {
+        firstRow = Math.min(firstRow, vertical.start[i]);
+        lastRow = Math.max(lastRow, vertical.start[i] + vertical.count[i] - 1);
+    }
+    const rows = Math.max(0, lastRow - firstRow + 1);
+
+    // Passada horizontal: origem (8 bits) -> buffer intermediário em ponto flutuante
+    const temp = new Float32Array(dstWidth * rows * 4);
+    for (let row = 0; row < rows; row++) {
+        const srcRow = (firstRow + row) * srcWidth;
+        for (let x = 0; x < dstWidth; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            const offset = x * horizontal.stride;
+            const start = horizontal.start[x];
+            for (let k = 0; k < horizontal.count[x]; k++) {
+                const weight = horizontal.weights[offset + k];
+                const p = (srcRow + start + k) * 4;
+                const alpha = src[p + 3] / 255;
+                const alphaWeight = premultiplyAlpha ? weight * alpha : weight;
+                if (linearLight) {
+                    r += SRGB_TO_LINEAR[src[p]] * alphaWeight;
+                    g += SRGB_TO_LINEAR[src[p + 1]] * alphaWeight;
+                    b += SRGB_TO_LINEAR[src[p + 2]] * alphaWeight;
+                } else {
+                    r += (src[p] / 255) * alphaWeight;
+                    g += (src[p + 1] / 255) * alphaWeight;
+                    b += (src[p + 2] / 255) * alphaWeight;
+                }
+                a += alpha * weight;
+            }
+            const t = (row * dstWidth + x) * 4;
+            temp[t] = r;
+            temp[t + 1] = g;
+            temp[t + 2] = b;
+            temp[t + 3] = a;
+        }
+    }
+
+    // Passada vertical: buffer intermediário -> destino, desfazendo a pré-multiplicação
+    const output = new ImageData(dstWidth, dstHeight);
+    const out = output.data;
+    for (let y = 0; y < dstHeight; y++) {
+        const offset = y * vertical.stride;
+        const start = vertical.start[y] - firstRow;
+        for (let x = 0; x < dstWidth; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < vertical.count[y]; k++) {
+                const weight = vertical.weights[offset + k];
+                const t = ((start + k) * dstWidth + x) * 4;
+                r += temp[t] * weight;
+                g += temp[t + 1] * weight;
+                b += temp[t + 2] * weight;
+                a += temp[t + 3] * weight;
+            }
+
+            a = clamp01(a);
+            if (premultiplyAlpha && a > 0) {
+                r /= a;
+                g /= a;
+                b /= a;
+            }
+
+            const p = (y * dstWidth + x) * 4;
+            if (linearLight) {
+                out[p] = LINEAR_TO_SRGB[Math.round(clamp01(r) * LINEAR_TO_SRGB_STEPS)];
+                out[p + 1] = LINEAR_TO_SRGB[Math.round(clamp01(g) * LINEAR_TO_SRGB_STEPS)];
+                out[p + 2] = LINEAR_TO_SRGB[Math.round(clamp01(b) * LINEAR_TO_SRGB_STEPS)];
+            } else {
+                out[p] = Math.round(clamp01(r) * 255);
+                out[p + 1] = Math.round(clamp01(g) * 255);
+                out[p + 2] = Math.round(clamp01(b) * 255);
+            }
+            out[p + 3] = Math.round(a * 255);
+        }
+    }
+
+    if (sharpenAmount > 0) {
+        unsharpMask(output, sharpenAmount);
+    }
+    return output;
+};
@@ -0,0 +1,137 @@
+// Recorte inteligente: escolhe a janela com mais conteúdo relevante em vez do
+// recorte geométrico central. Tudo é calculado numa cópia reduzida da imagem.
+import type { CropRect } from './protocol';
+
+const ANALYSIS_SIZE = 256;
+const WINDOW_SCALES = [1, 0.9, 0.8, 0.7];
+const POSITION_STEPS = 24;
+
+// Pesos de cada componente da saliência
+const EDGE_WEIGHT = 1;
+const SKIN_WEIGHT = 1.6;
+const SATURATION_WEIGHT = 0.4;
+// Penaliza janelas menores para só aproximar quando o conteúdo é concentrado
+const ZOOM_PENALTY = 0.35;
+
+// Tons de pele em YCbCr (faixa clássica de Chai & Ngan)
+const skinScore = (r: number, g: number, b: number): number => {
+    const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+    const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+    return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173 ? 1 : 0;
+};
+
+// Mapa de saliência: bordas (Sobel na luminância), pele e saturação
+const computeSaliency = (data: Uint8ClampedArray, width: number, height: number): Float32Array => {
+    const luma = new Float32Array(width * height);
+    for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+        luma[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    }
+
+    const saliency = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            const p = i * 4;
+            const alpha = data[p + 3] / 255;
+
+            let edge = 0;
+            if (x > 0 && y > 0 && x < width - 1 && y < height - 1) {
+                const gx =
+                    luma[i - width + 1] + 2 * luma[i + 1] + luma[i + width + 1] -
+                    luma[i - width - 1] - 2 * luma[i - 1] - luma[i + width - 1];
+                const gy =
+                    luma[i + width - 1] + 2 * luma[i + width] + luma[i + width + 1] -
+                    luma[i - width - 1] - 2 * luma[i - width] - luma[i - width + 1];
+                edge = Math.min(1, Math.sqrt(gx * gx + gy * gy) / 512);
+            }
+
+            const r = data[p], g = data[p + 1], b = data[p + 2];
+            const max = Math.max(r, g, b);
+            const saturation = max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+
+            saliency[i] = alpha * (
+                EDGE_WEIGHT * edge +
+                SKIN_WEIGHT * skinScore(r, g, b) * 0.5 +
+                SATURATION_WEIGHT * saturation * 0.5
+            );
+        }
+    }
+    return saliency;
+};
+
+// Tabela de áreas somadas para somar qualquer janela em O(1)
+const buildIntegral = (values: Float32Array, width: number, height: number): Float64Array => {
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 1; y <= height; y++) {
+        let rowSum = 0;
+        for (let x = 1; x <= width; x++) {
+            rowSum += values[(y - 1) * width + (x - 1)];
+            integral[y * (width + 1) + x] = integral[(y - 1) * (width + 1) + x] + rowSum;
+        }
+    }
+    return integral;
+};
+
+const windowSum = (integral: Float64Array, stride: number, x: number, y: number, w: number, h: number): number =>
+    integral[(y + h) * stride + (x + w)] - integral[y * stride + (x + w)] -
+    integral[(y + h) * stride + x] + integral[y * stride + x];
+
+// Encontrar a melhor janela com a proporção do quadro de saída, em pixels da imagem original
+export const findSmartCrop = (
+    image: CanvasImageSource & { width: number; height: number },
+    targetAspectRatio: number
+): CropRect => {
+    const scale = Math.min(1, ANALYSIS_SIZE / Math.max(image.width, image.height));
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+    }
+    ctx.drawImage(image, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const saliency = computeSaliency(data, width, height);
+    const integral = buildIntegral(saliency, width, height);
+    const stride = width + 1;
+    const total = windowSum(integral, stride, 0, 0, width, height) || 1;
+
+    // Maior janela com a proporção desejada que cabe na imagem
+    let baseWidth = width;
+    let baseHeight = Math.round(width / targetAspectRatio);
+    if (baseHeight > height) {
+        baseHeight = height;
+        baseWidth = Math.round(height * targetAspectRatio);
+    }
+
+    let best = { x: 0, y: 0, w: baseWidth, h: baseHeight, score: -Infinity };
+
+    for (const windowScale of WINDOW_SCALES) {
+        const w = Math.max(1, Math.round(baseWidth * windowScale));
+        const h = Math.max(1, Math.round(baseHeight * windowScale));
+        const stepX = Math.max(1, Math.floor((width - w) / POSITION_STEPS));
+        const stepY = Math.max(1, Math.floor((height - h) / POSITION_STEPS));
+
+        for (let y = 0; y <= height - h; y += stepY) {
+            for (let x = 0; x <= width - w; x += stepX) {
+                const coverage = windowSum(integral, stride, x, y, w, h) / total;
+                const score = coverage - ZOOM_PENALTY * (1 - windowScale);
+                if (score > best.score) {
+                    best = { x, y, w, h, score };
+                }
+            }
+        }
+    }
+
+    // Volta para as coordenadas da imagem original, respeitando a proporção exata
+    const cropWidth = Math.min(image.width, best.w / scale);
+    const cropHeight = Math.min(image.height, cropWidth / targetAspectRatio);
+    return {
+        x: Math.max(0, Math.min(best.x / scale, image.width - cropWidth)),
+        y: Math.max(0, Math.min(best.y / scale, image.height - cropHeight)),
+        width: cropWidth,
+        height: cropHeight
+    };
+};
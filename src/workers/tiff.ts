@@ -0,0 +1,376 @@
+// Decodificador de TIFF baseline (primeira página): sem compressão, LZW e
+// PackBits; 1 a 16 bits por amostra; tons de cinza, paleta, RGB e RGBA.
+// Recursos fora disso geram um erro que diz exatamente o que não é suportado.
+
+export interface DecodedTiff {
+    image: ImageData;
+    // Tag Orientation (1 a 8); o TIFF não passa pelo decodificador do navegador
+    orientation: number;
+}
+
+const TAGS = {
+    imageWidth: 256,
+    imageLength: 257,
+    bitsPerSample: 258,
+    compression: 259,
+    photometric: 262,
+    stripOffsets: 273,
+    orientation: 274,
+    samplesPerPixel: 277,
+    rowsPerStrip: 278,
+    stripByteCounts: 279,
+    planarConfiguration: 284,
+    predictor: 317,
+    colorMap: 320,
+    tileWidth: 322,
+    extraSamples: 338,
+    sampleFormat: 339
+};
+
+const COMPRESSION = { none: 1, lzw: 5, packBits: 32773 };
+
+const COMPRESSION_NAMES: Record<number, string> = {
+    2: 'CCITT RLE',
+    3: 'CCITT Grupo 3',
+    4: 'CCITT Grupo 4',
+    6: 'JPEG (antigo)',
+    7: 'JPEG',
+    8: 'Deflate',
+    32946: 'Deflate',
+    34712: 'JPEG 2000',
+    34887: 'LERC',
+    50000: 'Zstandard',
+    50001: 'WebP'
+};
+
+const PHOTOMETRIC = { whiteIsZero: 0, blackIsZero: 1, rgb: 2, palette: 3 };
+
+const PHOTOMETRIC_NAMES: Record<number, string> = {
+    4: 'máscara de transparência',
+    5: 'CMYK',
+    6: 'YCbCr',
+    8: 'CIE L*a*b*',
+    32844: 'LogL',
+    32845: 'LogLuv'
+};
+
+// Tamanho em bytes de cada tipo de campo do IFD
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 16: 8 };
+
+const unsupported = (feature: string): Error =>
+    new Error(`TIFF não suportado: ${feature}. São aceitos TIFFs baseline sem compressão, LZW ou PackBits, ` +
+        'com 1 a 16 bits por amostra em tons de cinza, paleta, RGB ou RGBA.');
+
+// Versão do cabeçalho: 42 no TIFF clássico, 43 no BigTIFF
+const readVersion = (bytes: Uint8Array): number | null => {
+    if (bytes.length < 8) return null;
+    if (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[3] === 0) return bytes[2];
+    if (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0) return bytes[3];
+    return null;
+};
+
+export const isTiff = (bytes: Uint8Array): boolean => {
+    const version = readVersion(bytes);
+    return version === 42 || version === 43;
+};
+
+// Ler o primeiro IFD como mapa tag -> valores numéricos
+const readIfd = (view: DataView, littleEndian: boolean): Map<number, number[]> => {
+    const fields = new Map<number, number[]>();
+    const offset = view.getUint32(4, littleEndian);
+    if (offset + 2 > view.byteLength) {
+        throw new Error('TIFF corrompido: o diretório da imagem está fora do arquivo.');
+    }
+    const count = view.getUint16(offset, littleEndian);
+
+    for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const tag = view.getUint16(entry, littleEndian);
+        const type = view.getUint16(entry + 2, littleEndian);
+        const valueCount = view.getUint32(entry + 4, littleEndian);
+        const size = TYPE_SIZES[type];
+        if (!size) continue;
+
+        const total = size * valueCount;
+        const dataOffset = total <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+        if (dataOffset + total > view.byteLength) continue;
+
+        const values: number[] = [];
+        for (let v = 0; v < valueCount; v++) {
+            const p = dataOffset + v * size;
+            switch (type) {
+                case 3: values.push(view.getUint16(p, littleEndian)); break;
+                case 4: values.push(view.getUint32(p, littleEndian)); break;
+                case 8: values.push(view.getInt16(p, littleEndian)); break;
+                case 9: values.push(view.getInt32(p, littleEndian)); break;
+                case 6: values.push(view.getInt8(p)); break;
+                case 1: case 2: case 7: values.push(view.getUint8(p)); break;
+                default: values.push(NaN); break;
+            }
+        }
+        fields.set(tag, values);
+    }
+    return fields;
+};
+
+// LZW do TIFF: códigos MSB-first de 9 a 12 bits, com a troca de largura um
+// código antes do GIF ("early change")
+const decodeLzw = (input: Uint8Array, expected: number): Uint8Array => {
+    const output = new Uint8Array(expected);
+    const table: Uint8Array[] = [];
+    const resetTable = () => {
+        table.length = 258;
+        for (let i = 0; i < 256; i++) {
+            table[i] = Uint8Array.of(i);
+        }
+    };
+    resetTable();
+
+    let written = 0;
+    let bitPosition = 0;
+    let codeWidth = 9;
+    let previous: Uint8Array | null = null;
+    const totalBits = input.length * 8;
+
+    const write = (sequence: Uint8Array) => {
+        const length = Math.min(sequence.length, expected - written);
+        output.set(sequence.subarray(0, length), written);
+        written += length;
+    };
+
+    while (bitPosition + codeWidth <= totalBits && written < expected) {
+        // Ler codeWidth bits a partir de bitPosition (até 3 bytes)
+        const byte = bitPosition >> 3;
+        const chunk = (input[byte] << 16) | ((input[byte + 1] ?? 0) << 8) | (input[byte + 2] ?? 0);
+        const code = (chunk >> (24 - (bitPosition & 7) - codeWidth)) & ((1 << codeWidth) - 1);
+        bitPosition += codeWidth;
+
+        if (code === 257) break; // EOI
+        if (code === 256) {
+            resetTable();
+            codeWidth = 9;
+            previous = null;
+            continue;
+        }
+
+        let sequence: Uint8Array;
+        if (code < table.length) {
+            sequence = table[code];
+            if (previous) {
+                const entry = new Uint8Array(previous.length + 1);
+                entry.set(previous);
+                entry[previous.length] = sequence[0];
+                table.push(entry);
+            }
+        } else if (previous && code === table.length) {
+            sequence = new Uint8Array(previous.length + 1);
+            sequence.set(previous);
+            sequence[previous.length] = previous[0];
+            table.push(sequence);
+        } else {
+            throw new Error('TIFF corrompido: código LZW inválido.');
+        }
+
+        write(sequence);
+        previous = sequence;
+
+        if (table.length + 1 >= (1 << codeWidth) && codeWidth < 12) {
+            codeWidth++;
+        }
+    }
+    return output;
+};
+
+const decodePackBits = (input: Uint8Array, expected: number): Uint8Array => {
+    const output = new Uint8Array(expected);
+    let written = 0;
+    let i = 0;
+    while (i < input.length && written < expected) {
+        const header = (input[i++] << 24) >> 24;
+        if (header >= 0) {
+            const length = Math.min(header + 1, expected - written, input.length - i);
+            output.set(input.subarray(i, i + length), written);
+            written += length;
+            i += header + 1;
+        } else if (header !== -128) {
+            const length = Math.min(1 - header, expected - written);
+            output.fill(input[i++], written, written + length);
+            written += length;
+        }
+    }
+    return output;
+};
+
+export const decodeTiff = (bytes: Uint8Array): DecodedTiff => {
+    const version = readVersion(bytes);
+    if (version === 43) {
+        throw unsupported('BigTIFF (arquivos acima de 4 GB)');
+    }
+    if (version !== 42) {
+        throw new Error('O arquivo não é um TIFF válido.');
+    }
+    const littleEndian = bytes[0] === 0x49;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const fields = readIfd(view, littleEndian);
+    const first = (tag: number, fallback: number) => fields.get(tag)?.[0] ?? fallback;
+
+    const width = first(TAGS.imageWidth, 0);
+    const height = first(TAGS.imageLength, 0);
+    if (width <= 0 || height <= 0) {
+        throw new Error('TIFF corrompido: largura ou altura ausente.');
+    }
+
+    const compression = first(TAGS.compression, COMPRESSION.none);
+    if (compression !== COMPRESSION.none && compression !== COMPRESSION.lzw && compression !== COMPRESSION.packBits) {
+        throw unsupported(`compressão ${COMPRESSION_NAMES[compression] ?? `desconhecida (${compression})`}`);
+    }
+    const photometric = first(TAGS.photometric, PHOTOMETRIC.blackIsZero);
+    if (photometric > PHOTOMETRIC.palette) {
+        throw unsupported(`espaço de cor ${PHOTOMETRIC_NAMES[photometric] ?? `desconhecido (${photometric})`}`);
+    }
+    if (fields.has(TAGS.tileWidth)) {
+        throw unsupported('imagem dividida em blocos (tiles)');
+    }
+    if (first(TAGS.planarConfiguration, 1) !== 1) {
+        throw unsupported('canais em planos separados (PlanarConfiguration = 2)');
+    }
+    const sampleFormat = first(TAGS.sampleFormat, 1);
+    if (sampleFormat !== 1) {
+        throw unsupported(sampleFormat === 3 ? 'amostras em ponto flutuante' : 'amostras com sinal');
+    }
+    const predictor = first(TAGS.predictor, 1);
+    if (predictor !== 1 && predictor !== 2) {
+        throw unsupported(`preditor ${predictor === 3 ? 'de ponto flutuante' : predictor}`);
+    }
+
+    const samplesPerPixel = first(TAGS.samplesPerPixel, 1);
+    const bitDepths = fields.get(TAGS.bitsPerSample) ?? [1];
+    const bits = bitDepths[0];
+    if (bitDepths.some(depth => depth !== bits)) {
+        throw unsupported(`profundidades diferentes por canal (${bitDepths.join('/')} bits)`);
+    }
+    if (![1, 2, 4, 8, 16].includes(bits)) {
+        throw unsupported(`${bits} bits por amostra`);
+    }
+
+    const colorSamples = photometric === PHOTOMETRIC.rgb ? 3 : 1;
+    if (samplesPerPixel < colorSamples) {
+        throw new Error('TIFF corrompido: faltam canais de cor.');
+    }
+    if (photometric === PHOTOMETRIC.rgb && bits < 8) {
+        throw unsupported(`RGB com ${bits} bits por amostra`);
+    }
+    // Canais extras só são alfa quando ExtraSamples diz: 1 = alfa pré-multiplicado,
+    // 2 = alfa comum. Sem a tag ou com 0 (dado não especificado, comum em scanners)
+    // os canais extras são ignorados e a imagem fica opaca.
+    const extraSamples = fields.get(TAGS.extraSamples) ?? [];
+    const alphaIndex = extraSamples
+        .slice(0, samplesPerPixel - colorSamples)
+        .findIndex(value => value === 1 || value === 2);
+    const hasAlpha = alphaIndex >= 0;
+    const alphaSample = colorSamples + alphaIndex;
+    const premultiplied = hasAlpha && extraSamples[alphaIndex] === 1;
+
+    const colorMap = fields.get(TAGS.colorMap);
+    if (photometric === PHOTOMETRIC.palette && (!colorMap || colorMap.length < 3 * (1 << bits))) {
+        throw new Error('TIFF corrompido: paleta de cores ausente.');
+    }
+
+    // Descomprimir as faixas (strips) em um único buffer de linhas
+    const rowBytes = Math.ceil(width * samplesPerPixel * bits / 8);
+    const rowsPerStrip = Math.min(height, first(TAGS.rowsPerStrip, height));
+    const offsets = fields.get(TAGS.stripOffsets);
+    const counts = fields.get(TAGS.stripByteCounts);
+    if (!offsets) {
+        throw new Error('TIFF corrompido: sem dados de imagem.');
+    }
+
+    const raw = new Uint8Array(rowBytes * height);
+    for (let strip = 0; strip < offsets.length; strip++) {
+        const firstRow = strip * rowsPerStrip;
+        if (firstRow >= height) break;
+        const expected = rowBytes * Math.min(rowsPerStrip, height - firstRow);
+        const start = offsets[strip];
+        const end = Math.min(bytes.length, start + (counts?.[strip] ?? expected));
+        const data = bytes.subarray(start, end);
+
+        const decoded = compression === COMPRESSION.lzw
+            ? decodeLzw(data, expected)
+            : compression === COMPRESSION.packBits
+                ? decodePackBits(data, expected)
+                : data.subarray(0, expected);
+        raw.set(decoded, firstRow * rowBytes);
+    }
+
+    // Ler as amostras de uma linha como inteiros (1 a 16 bits)
+    const sampleMax = (1 << bits) - 1;
+    const readRow = (row: number): Uint16Array => {
+        const samples = new Uint16Array(width * samplesPerPixel);
+        const offset = row * rowBytes;
+        if (bits === 8) {
+            samples.set(raw.subarray(offset, offset + samples.length));
+        } else if (bits === 16) {
+            const rowView = new DataView(raw.buffer, raw.byteOffset + offset, rowBytes);
+            for (let i = 0; i < samples.length; i++) {
+                samples[i] = rowView.getUint16(i * 2, littleEndian);
+            }
+        } else {
+            for (let i = 0; i < samples.length; i++) {
+                const bit = i * bits;
+                samples[i] = (raw[offset + (bit >> 3)] >> (8 - bits - (bit & 7))) & sampleMax;
+            }
+        }
+
+        // Preditor horizontal: cada amostra guarda a diferença para o pixel anterior
+        if (predictor === 2) {
+            const mask = bits === 16 ? 0xffff : 0xff;
+            for (let i = samplesPerPixel; i < samples.length; i++) {
+                samples[i] = (samples[i] + samples[i - samplesPerPixel]) & mask;
+            }
+        }
+        return samples;
+    };
+
+    const to8Bit = (value: number) => (bits === 16 ? value >> 8 : bits === 8 ? value : Math.round(value * 255 / sampleMax));
+
+    const image = new ImageData(width, height);
+    const out = image.data;
+    for (let y = 0; y < height; y++) {
+        const samples = readRow(y);
+        for (let x = 0; x < width; x++) {
+            const s = x * samplesPerPixel;
+            const p = (y * width + x) * 4;
+            let r: number, g: number, b: number;
+
+            if (photometric === PHOTOMETRIC.rgb) {
+                r = to8Bit(samples[s]);
+                g = to8Bit(samples[s + 1]);
+                b = to8Bit(samples[s + 2]);
+            } else if (photometric === PHOTOMETRIC.palette && colorMap) {
+                // A paleta tem 16 bits por canal: todos os vermelhos, depois verdes e azuis
+                const entries = 1 << bits;
+                r = colorMap[samples[s]] >> 8;
+                g = colorMap[entries + samples[s]] >> 8;
+                b = colorMap[2 * entries + samples[s]] >> 8;
+            } else {
+                const gray = to8Bit(samples[s]);
+                r = g = b = photometric === PHOTOMETRIC.whiteIsZero ? 255 - gray : gray;
+            }
+
+            const alpha = hasAlpha ? to8Bit(samples[s + alphaSample]) : 255;
+            if (premultiplied && alpha > 0 && alpha < 255) {
+                r = Math.min(255, Math.round(r * 255 / alpha));
+                g = Math.min(255, Math.round(g * 255 / alpha));
+                b = Math.min(255, Math.round(b * 255 / alpha));
+            }
+            out[p] = r;
+            out[p + 1] = g;
+            out[p + 2] = b;
+            out[p + 3] = alpha;
+        }
+    }
+
+    const orientation = first(TAGS.orientation, 1);
+    return { image, orientation: orientation >= 1 && orientation <= 8 ? orientation : 1 };
+};
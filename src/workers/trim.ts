@@ -0,0 +1,95 @@
+// Corte automático de bordas: detecta a cor uniforme da borda (branca,
+// transparente ou qualquer outra, com tolerância) e encontra o retângulo do
+// conteúdo. A análise é feita numa cópia reduzida da imagem.
+import type { CropRect } from './protocol';
+import { TRANSPARENT_ALPHA, getBorderOffsets, medianColor, toChannelTolerance } from '@/utils/background';
+
+const ANALYSIS_MAX_SIDE = 1024;
+// Fração mínima da borda na cor de referência para considerá-la uniforme; o
+// produto pode encostar em um dos lados sem impedir o corte dos demais
+const UNIFORM_BORDER_SHARE = 0.6;
+// Linhas e colunas com menos conteúdo que isto (fração do comprimento) são ruído
+const NOISE_FRACTION = 0.002;
+
+// Primeiro e último índice com contagem acima do ruído, ou null se nenhum
+const findSpan = (counts: Uint32Array, minCount: number): [number, number] | null => {
+    let start = 0;
+    while (start < counts.length && counts[start] < minCount) start++;
+    if (start === counts.length) return null;
+    let end = counts.length - 1;
+    while (counts[end] < minCount) end--;
+    return [start, end];
+};
+
+// Retângulo do conteúdo em pixels de image; 'empty' quando a imagem é toda da
+// cor da borda e null quando a borda não tem uma cor uniforme (foto sem fundo)
+export function findContentBounds(image: ImageData, tolerancePercent: number): CropRect | 'empty' | null {
+    const { data, width, height } = image;
+    const tolerance = toChannelTolerance(tolerancePercent);
+    const borderOffsets = getBorderOffsets(width, height);
+    const background = medianColor(data, borderOffsets);
+    const transparentBackground = background[3] < TRANSPARENT_ALPHA;
+
+    const isBackground = (p: number): boolean => {
+        if (transparentBackground) {
+            return data[p + 3] < TRANSPARENT_ALPHA;
+        }
+        return Math.abs(data[p] - background[0]) <= tolerance &&
+            Math.abs(data[p + 1] - background[1]) <= tolerance &&
+            Math.abs(data[p + 2] - background[2]) <= tolerance &&
+            Math.abs(data[p + 3] - background[3]) <= tolerance;
+    };
+
+    const uniform = borderOffsets.filter(isBackground).length;
+    if (uniform < borderOffsets.length * UNIFORM_BORDER_SHARE) {
+        return null;
+    }
+
+    const rowCounts = new Uint32Array(height);
+    const columnCounts = new Uint32Array(width);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!isBackground((y * width + x) * 4)) {
+                rowCounts[y]++;
+                columnCounts[x]++;
+            }
+        }
+    }
+
+    const rows = findSpan(rowCounts, Math.max(1, width * NOISE_FRACTION));
+    const columns = findSpan(columnCounts, Math.max(1, height * NOISE_FRACTION));
+    if (!rows || !columns) {
+        return 'empty';
+    }
+    return {
+        x: columns[0],
+        y: rows[0],
+        width: columns[1] - columns[0] + 1,
+        height: rows[1] - rows[0] + 1
+    };
+}
+
+// Região a manter no bitmap; a cópia reduzida perde precisão, então o
+// retângulo é alargado em um pixel da análise de cada lado
+export function findTrimRegion(imageBitmap: ImageBitmap | OffscreenCanvas, tolerancePercent: number): CropRect | null {
+    const scale = Math.min(1, ANALYSIS_MAX_SIDE / Math.max(imageBitmap.width, imageBitmap.height));
+    const width = Math.max(1, Math.round(imageBitmap.width * scale));
+    const height = Math.max(1, Math.round(imageBitmap.height * scale));
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Não foi possível obter o contexto do OffscreenCanvas.');
+    }
+    ctx.drawImage(imageBitmap, 0, 0, width, height);
+
+    const bounds = findContentBounds(ctx.getImageData(0, 0, width, height), tolerancePercent);
+    if (!bounds || bounds === 'empty') {
+        return null;
+    }
+    const padding = scale < 1 ? 1 : 0;
+    const x0 = Math.max(0, Math.floor((bounds.x - padding) / scale));
+    const y0 = Math.max(0, Math.floor((bounds.y - padding) / scale));
+    const x1 = Math.min(imageBitmap.width, Math.ceil((bounds.x + bounds.width + padding) / scale));
+    const y1 = Math.min(imageBitmap.height, Math.ceil((bounds.y + bounds.height + padding) / scale));
+    return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}